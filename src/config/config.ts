@@ -76,6 +76,30 @@ export function getDefaultConfig(): PluginsServerConfig {
         PLUGIN_SERVER_ACTION_MATCHING: 2,
         PISCINA_USE_ATOMICS: true,
         PISCINA_ATOMICS_TIMEOUT: 5000,
+        EVENT_DEDUPLICATION_WINDOW_SECONDS: 3600,
+        EVENT_MAX_FUTURE_DRIFT_SECONDS: 0,
+        EVENT_MAX_AGE_SECONDS: 0,
+        EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING: 'clamp',
+        INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 0,
+        INGESTION_RATE_LIMIT_BURST: 0,
+        INGESTION_RATE_LIMIT_OVERRIDES: '',
+        INGESTION_RATE_LIMIT_ACTION: 'drop',
+        INGESTION_RATE_LIMIT_DELAY_SECONDS: 60,
+        EVENT_PROPERTIES_MAX_BYTES: 512_000,
+        EVENT_PROPERTIES_MAX_KEYS: 1000,
+        EVENT_PROPERTIES_MAX_DEPTH: 10,
+        EVENT_PROPERTY_MAX_STRING_LENGTH: 65_535,
+        EVENT_SCHEMA_VALIDATION: false,
+        PERSON_MERGE_REFUSE_IDENTIFIED: false,
+        PERSON_MAX_DISTINCT_IDS: 0,
+        PERSON_CACHE_SIZE: 0,
+        PERSON_CACHE_TTL_SECONDS: 60,
+        SESSION_RECORDING_CHUNK_SIZE: 0,
+        SESSION_RECORDING_BUFFER_TTL_SECONDS: 3600,
+        SITE_URL: null,
+        WEBHOOK_TIMEOUT_SECONDS: 10,
+        WEBHOOK_MAX_ATTEMPTS: 5,
+        WEBHOOK_RETRY_DELAY_SECONDS: 30,
     }
 }
 
@@ -133,6 +157,39 @@ export function getConfigHelp(): Record<keyof PluginsServerConfig, string> {
             'corresponds to the piscina useAtomics config option (https://github.com/piscinajs/piscina#constructor-new-piscinaoptions)',
         PISCINA_ATOMICS_TIMEOUT:
             '(advanced) corresponds to the length of time a piscina worker should block for when looking for tasks',
+        EVENT_DEDUPLICATION_WINDOW_SECONDS:
+            'for how many seconds an ingested event UUID is remembered to skip redeliveries (0 disables deduplication)',
+        EVENT_MAX_FUTURE_DRIFT_SECONDS: 'how far into the future an event timestamp may be (0 means no limit)',
+        EVENT_MAX_AGE_SECONDS: 'how far into the past an event timestamp may be (0 means no limit)',
+        EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING:
+            'whether to clamp out of bounds event timestamps to the time of ingestion or reject such events into the dead letter queue',
+        INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 'default per-team ingestion rate limit (0 means no limit)',
+        INGESTION_RATE_LIMIT_BURST: 'how many events a team can send at once before being rate limited',
+        INGESTION_RATE_LIMIT_OVERRIDES:
+            'JSON object of rate limits for specific teams and organizations, e.g. {"team:2": {"eventsPerSecond": 100}}',
+        INGESTION_RATE_LIMIT_ACTION: 'whether to drop, delay (via the job queue) or just count rate limited events',
+        INGESTION_RATE_LIMIT_DELAY_SECONDS: 'how many seconds to delay rate limited events for',
+        EVENT_PROPERTIES_MAX_BYTES:
+            'maximum size of event properties as JSON, largest properties dropped (0 means no limit)',
+        EVENT_PROPERTIES_MAX_KEYS: 'maximum number of keys of any object in event properties (0 means no limit)',
+        EVENT_PROPERTIES_MAX_DEPTH: 'maximum nesting depth of event properties (0 means no limit)',
+        EVENT_PROPERTY_MAX_STRING_LENGTH: 'maximum length of strings in event properties (0 means no limit)',
+        EVENT_SCHEMA_VALIDATION: 'whether to validate event properties against per-team event schemas',
+        PERSON_MERGE_REFUSE_IDENTIFIED: 'whether to refuse aliasing that would merge two identified persons',
+        PERSON_MAX_DISTINCT_IDS:
+            'maximum number of distinct IDs per person, beyond which aliasing is refused (0 means no limit)',
+        PERSON_CACHE_SIZE: 'size of the per-worker cache of persons by distinct ID (0 disables the cache)',
+        PERSON_CACHE_TTL_SECONDS:
+            'how long persons stay cached, bounding staleness after changes made outside the server',
+        SESSION_RECORDING_CHUNK_SIZE:
+            'maximum size of gzipped session recording snapshot chunks written to Kafka (0 means snapshots are written as is)',
+        SESSION_RECORDING_BUFFER_TTL_SECONDS:
+            'how long snapshots of sessions not (yet) meeting the recording criteria of their team are buffered in Redis',
+        SITE_URL: 'URL of the PostHog instance, for linking to actions in action alerts',
+        WEBHOOK_TIMEOUT_SECONDS: 'how many seconds webhook and REST hook requests can take before failing',
+        WEBHOOK_MAX_ATTEMPTS: 'how many times to try delivering a webhook or REST hook request before giving up',
+        WEBHOOK_RETRY_DELAY_SECONDS:
+            'how many seconds to wait before retrying a failed webhook delivery, doubling with each further attempt',
     }
 }
 
@@ -2,5 +2,7 @@ export const KAFKA_EVENTS = 'clickhouse_events_proto'
 export const KAFKA_PERSON = 'clickhouse_person'
 export const KAFKA_PERSON_UNIQUE_ID = 'clickhouse_person_unique_id'
 export const KAFKA_SESSION_RECORDING_EVENTS = 'clickhouse_session_recording_events'
+export const KAFKA_ACTION_EVENTS = 'clickhouse_action_events'
 export const KAFKA_EVENTS_PLUGIN_INGESTION = 'events_plugin_ingestion'
 export const KAFKA_PLUGIN_LOG_ENTRIES = 'plugin_log_entries'
+export const KAFKA_EVENTS_DEAD_LETTER_QUEUE = 'events_dead_letter_queue'
@@ -1,10 +1,15 @@
+import { readFileSync } from 'fs'
+
 import { defaultConfig, formatConfigHelp } from './config/config'
 import { healthcheckWithExit } from './healthcheck'
 import { initApp } from './init'
 import { GraphileQueue } from './main/job-queues/concurrent/graphile-queue'
 import { startPluginsServer } from './main/pluginsServer'
+import { replayDeadLetterQueue } from './main/services/dead-letter-queue'
+import { createHub } from './utils/db/hub'
 import { Status } from './utils/status'
 import { makePiscina } from './worker/piscina'
+import { workerTasks } from './worker/tasks'
 
 const { version } = require('../package.json')
 const { argv } = process
@@ -15,6 +20,8 @@ enum AlternativeMode {
     Healthcheck = 'HLTH',
     Idle = 'IDLE',
     Migrate = 'MGRT',
+    ReplayDeadLetterQueue = 'RPLY',
+    ExplainActionMatch = 'XPLN',
 }
 
 let alternativeMode: AlternativeMode | undefined
@@ -26,6 +33,10 @@ if (argv.includes('--help') || argv.includes('-h')) {
     alternativeMode = AlternativeMode.Healthcheck
 } else if (argv.includes('--migrate')) {
     alternativeMode = AlternativeMode.Migrate
+} else if (argv.includes('--replay-dead-letter-queue')) {
+    alternativeMode = AlternativeMode.ReplayDeadLetterQueue
+} else if (argv.includes('--explain-action-match')) {
+    alternativeMode = AlternativeMode.ExplainActionMatch
 } else if (defaultConfig.PLUGIN_SERVER_IDLE) {
     alternativeMode = AlternativeMode.Idle
 }
@@ -75,6 +86,53 @@ switch (alternativeMode) {
             }
         })()
         break
+    case AlternativeMode.ReplayDeadLetterQueue:
+        initApp(defaultConfig)
+
+        status.info('🔁', 'Replaying events from the dead letter queue')
+        void (async function () {
+            try {
+                const [hub, closeHub] = await createHub(defaultConfig)
+                const { replayed, skipped, failed } = await replayDeadLetterQueue(hub)
+                status.info(
+                    '✅',
+                    `Dead letter queue replayed! ${replayed} events ingested, ${skipped} skipped, ${failed} failed again`
+                )
+                await closeHub()
+                process.exit(0)
+            } catch (error) {
+                status.error('🔴', 'Error replaying the dead letter queue!\n', error)
+                process.exit(1)
+            }
+        })()
+        break
+    case AlternativeMode.ExplainActionMatch:
+        initApp(defaultConfig)
+
+        status.info('🔍', 'Explaining how the event matches against actions')
+        void (async function () {
+            try {
+                const [teamId, eventJsonOrPath] = argv.slice(argv.indexOf('--explain-action-match') + 1)
+                if (!teamId || !eventJsonOrPath) {
+                    throw new Error('Usage: --explain-action-match <team ID> <event JSON or path to event JSON file>')
+                }
+                const event = JSON.parse(
+                    eventJsonOrPath.trim().startsWith('{') ? eventJsonOrPath : readFileSync(eventJsonOrPath, 'utf8')
+                )
+                const [hub, closeHub] = await createHub(defaultConfig)
+                const explanations = await workerTasks.explainActionMatch(hub, { teamId: parseInt(teamId), event })
+                status.info(
+                    '✅',
+                    `Event explained against ${explanations.length} actions:\n${JSON.stringify(explanations, null, 2)}`
+                )
+                await closeHub()
+                process.exit(0)
+            } catch (error) {
+                status.error('🔴', 'Error explaining the action match!\n', error)
+                process.exit(1)
+            }
+        })()
+        break
 
     default:
         initApp(defaultConfig)
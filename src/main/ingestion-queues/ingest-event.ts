@@ -18,6 +18,10 @@ export async function ingestEvent(
 
     checkAndPause?.()
 
+    if (!(await server.ingestionRateLimiter.allowEvent(event))) {
+        return
+    }
+
     // run processEvent on all events that are not $snapshot
     if (!isSnapshot) {
         processedEvent = await runInstrumentedFunction({
@@ -56,6 +60,93 @@ export async function ingestEvent(
     countAndLogEvents()
 }
 
+/**
+ * Like `ingestEvent`, but for many events at once. After plugins have processed all the events, they are ingested
+ * in one worker task per thread, with all events of a person kept in the same task.
+ */
+export async function ingestEventBatch(
+    server: Hub,
+    workerMethods: WorkerMethods,
+    events: PluginEvent[]
+): Promise<void> {
+    const eachBatchStartTimer = new Date()
+
+    const allowedEvents: PluginEvent[] = []
+    for (const event of events) {
+        if (await server.ingestionRateLimiter.allowEvent(event)) {
+            allowedEvents.push(event)
+        }
+    }
+
+    // run processEvent on all events that are not $snapshot
+    const processedEvents = (
+        await Promise.all(
+            allowedEvents.map((event) =>
+                event.event === '$snapshot'
+                    ? event
+                    : runInstrumentedFunction({
+                          server,
+                          event,
+                          func: (event) => workerMethods.processEvent(event),
+                          statsKey: 'kafka_queue.single_event',
+                          timeoutMessage: 'Still running plugins on event. Timeout warning after 30 sec!',
+                      })
+            )
+        )
+    ).filter((event): event is PluginEvent => !!event)
+
+    await Promise.all([
+        ...splitIntoPersonBatches(processedEvents, server.WORKER_CONCURRENCY).map(async (batch) => {
+            const timeout = timeoutGuard('After 30 seconds still ingesting event batch', {
+                eventCount: batch.length,
+            })
+            const timer = new Date()
+            try {
+                return await workerMethods.ingestEventBatch(batch)
+            } catch (error) {
+                status.info('🔔', error)
+                Sentry.captureException(error)
+                throw error
+            } finally {
+                server.statsd?.timing('kafka_queue.batch_ingestion', timer)
+                clearTimeout(timeout)
+            }
+        }),
+        ...processedEvents.map((event) => {
+            const isSnapshot = event.event === '$snapshot'
+            return runInstrumentedFunction({
+                server,
+                event,
+                func: (event) => workerMethods[isSnapshot ? 'onSnapshot' : 'onEvent'](event),
+                statsKey: `kafka_queue.single_${isSnapshot ? 'on_snapshot' : 'on_event'}`,
+                timeoutMessage: `After 30 seconds still running ${isSnapshot ? 'onSnapshot' : 'onEvent'}`,
+            })
+        }),
+    ])
+
+    server.statsd?.timing('kafka_queue.each_event_batch', eachBatchStartTimer)
+    for (let i = 0; i < events.length; i++) {
+        server.internalMetrics?.incr('$$plugin_server_events_processed')
+        countAndLogEvents()
+    }
+}
+
+/** Split events into at most `batchCount` batches, keeping all events of a person in one batch, in order. */
+export function splitIntoPersonBatches(events: PluginEvent[], batchCount: number): PluginEvent[][] {
+    const batches: PluginEvent[][] = Array.from({ length: Math.max(batchCount, 1) }, () => [])
+    const batchIndexByPerson = new Map<string, number>()
+    for (const event of events) {
+        const key = `${event.team_id}::${event.distinct_id}`
+        let batchIndex = batchIndexByPerson.get(key)
+        if (batchIndex === undefined) {
+            batchIndex = batchIndexByPerson.size % batches.length
+            batchIndexByPerson.set(key, batchIndex)
+        }
+        batches[batchIndex].push(event)
+    }
+    return batches.filter((batch) => batch.length > 0)
+}
+
 async function runInstrumentedFunction({
     server,
     timeoutMessage,
@@ -6,7 +6,7 @@ import { Hub, Queue, WorkerMethods } from 'types'
 
 import { status } from '../../utils/status'
 import { groupIntoBatches, killGracefully, sanitizeEvent } from '../../utils/utils'
-import { ingestEvent } from './ingest-event'
+import { ingestEventBatch } from './ingest-event'
 
 export class KafkaQueue implements Queue {
     private pluginsServer: Hub
@@ -25,15 +25,14 @@ export class KafkaQueue implements Queue {
         this.workerMethods = workerMethods
     }
 
-    private async eachMessage(message: KafkaMessage): Promise<void> {
+    private static parseMessage(message: KafkaMessage): PluginEvent {
         const { data: dataStr, ...rawEvent } = JSON.parse(message.value!.toString())
         const combinedEvent = { ...rawEvent, ...JSON.parse(dataStr) }
-        const event: PluginEvent = sanitizeEvent({
+        return sanitizeEvent({
             ...combinedEvent,
             site_url: combinedEvent.site_url || null,
             ip: combinedEvent.ip || null,
         })
-        await ingestEvent(this.pluginsServer, this.workerMethods, event)
     }
 
     private async eachBatch({
@@ -62,7 +61,11 @@ export class KafkaQueue implements Queue {
                     return
                 }
 
-                await Promise.all(messageBatch.map((message) => this.eachMessage(message)))
+                await ingestEventBatch(
+                    this.pluginsServer,
+                    this.workerMethods,
+                    messageBatch.map((message) => KafkaQueue.parseMessage(message))
+                )
 
                 // this if should never be false, but who can trust computers these days
                 if (messageBatch.length > 0) {
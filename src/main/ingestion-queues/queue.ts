@@ -19,12 +19,8 @@ export function pauseQueueIfWorkerFull(
     }
 }
 
-export async function startQueue(
-    server: Hub,
-    piscina: Piscina,
-    workerMethods: Partial<WorkerMethods> = {}
-): Promise<Queue> {
-    const mergedWorkerMethods = {
+export function createWorkerMethods(server: Hub, piscina: Piscina): WorkerMethods {
+    return {
         onEvent: (event: PluginEvent) => {
             server.lastActivity = new Date().valueOf()
             server.lastActivityType = 'onEvent'
@@ -45,6 +41,21 @@ export async function startQueue(
             server.lastActivityType = 'ingestEvent'
             return piscina.run({ task: 'ingestEvent', args: { event } })
         },
+        ingestEventBatch: (events: PluginEvent[]) => {
+            server.lastActivity = new Date().valueOf()
+            server.lastActivityType = 'ingestEventBatch'
+            return piscina.run({ task: 'ingestEventBatch', args: { events } })
+        },
+    }
+}
+
+export async function startQueue(
+    server: Hub,
+    piscina: Piscina,
+    workerMethods: Partial<WorkerMethods> = {}
+): Promise<Queue> {
+    const mergedWorkerMethods = {
+        ...createWorkerMethods(server, piscina),
         ...workerMethods,
     }
 
@@ -0,0 +1,126 @@
+import { PluginEvent } from '@posthog/plugin-scaffold'
+import * as Sentry from '@sentry/node'
+
+import { EnqueuedJob, Hub, TeamId } from '../../types'
+import { status } from '../../utils/status'
+
+/** Type of the job queue job which brings an event delayed by the rate limiter back to ingestion. */
+export const DELAYED_EVENT_JOB_TYPE = '$$delayedIngestion'
+
+export interface RateLimit {
+    eventsPerSecond: number
+    /** How many events can be ingested at once before the limit kicks in. Defaults to `eventsPerSecond`. */
+    burst?: number
+}
+
+export function isDelayedEventJob(job: EnqueuedJob): boolean {
+    // delayed events don't belong to any plugin config, which is how they can't be confused with plugin jobs
+    return job.type === DELAYED_EVENT_JOB_TYPE && !job.pluginConfigId
+}
+
+class TokenBucket {
+    tokens: number
+    lastRefill: number
+
+    constructor(public eventsPerSecond: number, public burst: number) {
+        this.tokens = burst
+        this.lastRefill = Date.now()
+    }
+
+    consume(now = Date.now()): boolean {
+        this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.eventsPerSecond)
+        this.lastRefill = now
+        if (this.tokens < 1) {
+            return false
+        }
+        this.tokens--
+        return true
+    }
+}
+
+/**
+ * Per-team token bucket rate limiting of ingestion, so that a burst from one team can't starve all the others.
+ *
+ * The default limit applies to each team separately. Overrides can be set for a team (`team:<id>`), or for
+ * an organization (`organization:<id>`), in which case all of its teams share one bucket.
+ * Buckets are kept in memory, so limits apply per plugin server instance.
+ */
+export class IngestionRateLimiter {
+    hub: Hub
+    defaultLimit: RateLimit | null
+    overrides: Record<string, RateLimit>
+    buckets: Map<string, TokenBucket>
+
+    constructor(hub: Hub) {
+        this.hub = hub
+        this.defaultLimit = hub.INGESTION_RATE_LIMIT_EVENTS_PER_SECOND
+            ? { eventsPerSecond: hub.INGESTION_RATE_LIMIT_EVENTS_PER_SECOND, burst: hub.INGESTION_RATE_LIMIT_BURST }
+            : null
+        this.overrides = {}
+        if (hub.INGESTION_RATE_LIMIT_OVERRIDES) {
+            try {
+                this.overrides = JSON.parse(hub.INGESTION_RATE_LIMIT_OVERRIDES)
+            } catch (error) {
+                status.error('⚠️', 'Ignoring INGESTION_RATE_LIMIT_OVERRIDES, as it is not valid JSON:', error)
+            }
+        }
+        this.buckets = new Map()
+    }
+
+    /**
+     * Check the event against its team's limit and handle it according to `INGESTION_RATE_LIMIT_ACTION` if over.
+     * Returns whether the event should be ingested right now.
+     */
+    public async allowEvent(event: PluginEvent): Promise<boolean> {
+        const bucket = await this.getBucket(event.team_id)
+        if (!bucket || bucket.consume()) {
+            return true
+        }
+
+        const action = this.hub.INGESTION_RATE_LIMIT_ACTION
+        this.hub.statsd?.increment('kafka_queue.rate_limited', { team_id: event.team_id.toString(), action })
+        if (action === 'delay') {
+            try {
+                await this.hub.jobQueueManager.enqueue({
+                    type: DELAYED_EVENT_JOB_TYPE,
+                    payload: { event },
+                    timestamp: Date.now() + this.hub.INGESTION_RATE_LIMIT_DELAY_SECONDS * 1000,
+                    pluginConfigId: 0,
+                    pluginConfigTeam: event.team_id,
+                })
+            } catch (error) {
+                // the event is over the limit either way, so it's dropped instead of failing the whole batch
+                status.error('⚠️', `Could not delay rate limited event of team ${event.team_id}, dropping it:`, error)
+                Sentry.captureException(error, { extra: { teamId: event.team_id } })
+                this.hub.statsd?.increment('kafka_queue.rate_limited_delay_failed', {
+                    team_id: event.team_id.toString(),
+                })
+            }
+        }
+        return action === 'count'
+    }
+
+    private async getBucket(teamId: TeamId): Promise<TokenBucket | null> {
+        let key = `team:${teamId}`
+        let limit: RateLimit | null = this.overrides[key] ?? null
+        if (!limit && Object.keys(this.overrides).some((override) => override.startsWith('organization:'))) {
+            const team = await this.hub.teamManager.fetchTeam(teamId)
+            if (team && this.overrides[`organization:${team.organization_id}`]) {
+                key = `organization:${team.organization_id}`
+                limit = this.overrides[key]
+            }
+        }
+        limit = limit ?? this.defaultLimit
+        if (!limit) {
+            return null
+        }
+
+        const burst = Math.max(limit.burst || limit.eventsPerSecond, 1)
+        let bucket = this.buckets.get(key)
+        if (!bucket || bucket.eventsPerSecond !== limit.eventsPerSecond || bucket.burst !== burst) {
+            bucket = new TokenBucket(limit.eventsPerSecond, burst)
+            this.buckets.set(key, bucket)
+        }
+        return bucket
+    }
+}
@@ -6,17 +6,28 @@ import { killProcess } from '../../utils/kill'
 import { startRedlock } from '../../utils/redlock'
 import { status } from '../../utils/status'
 import { logOrThrowJobQueueError } from '../../utils/utils'
-import { pauseQueueIfWorkerFull } from '../ingestion-queues/queue'
+import { isWebhookDeliveryJob } from '../../worker/ingestion/hooks'
+import { ingestEvent } from '../ingestion-queues/ingest-event'
+import { createWorkerMethods, pauseQueueIfWorkerFull } from '../ingestion-queues/queue'
+import { isDelayedEventJob } from '../ingestion-queues/rate-limiter'
 
 export const LOCKED_RESOURCE = 'plugin-server:locks:job-queue-consumer'
 
 export async function startJobQueueConsumer(server: Hub, piscina: Piscina): Promise<JobQueueConsumerControl> {
     status.info('🔄', 'Starting job queue consumer, trying to get lock...')
 
+    const workerMethods = createWorkerMethods(server, piscina)
     const onJob: OnJobCallback = async (jobs) => {
         pauseQueueIfWorkerFull(() => server.jobQueueManager.pauseConsumer(), server, piscina)
         for (const job of jobs) {
-            await piscina.run({ task: 'runJob', args: { job } })
+            if (isDelayedEventJob(job)) {
+                // an event held back by the ingestion rate limiter, now going through the whole pipeline again
+                await ingestEvent(server, workerMethods, job.payload.event)
+            } else if (isWebhookDeliveryJob(job)) {
+                await piscina.run({ task: 'deliverWebhook', args: { delivery: job.payload.delivery } })
+            } else {
+                await piscina.run({ task: 'runJob', args: { job } })
+            }
         }
     }
 
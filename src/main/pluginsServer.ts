@@ -7,11 +7,13 @@ import * as schedule from 'node-schedule'
 import { defaultConfig } from '../config/config'
 import { Hub, JobQueueConsumerControl, PluginsServerConfig, Queue, ScheduleControl } from '../types'
 import { createHub } from '../utils/db/hub'
+import { PERSON_CACHE_INVALIDATION_CHANNEL } from '../utils/db/person-cache'
 import { killProcess } from '../utils/kill'
-import { PubSub } from '../utils/pubsub'
+import { claimPubSubMessage, PubSub } from '../utils/pubsub'
 import { status } from '../utils/status'
 import { statusReport } from '../utils/status-report'
 import { delay, getPiscinaStats } from '../utils/utils'
+import { SUPPRESSED_DISTINCT_IDS_INVALIDATION_CHANNEL } from '../worker/ingestion/team-manager'
 import { startQueue } from './ingestion-queues/queue'
 import { startJobQueueConsumer } from './job-queues/job-queue-consumer'
 import { createMmdbServer, performMmdbStalenessCheck, prepareMmdb } from './services/mmdb'
@@ -47,6 +49,7 @@ export async function startPluginsServer(
     let piscinaStatsJob: schedule.Job | undefined
     let internalMetricsStatsJob: schedule.Job | undefined
     let pluginMetricsJob: schedule.Job | undefined
+    let propertyTypeCountsJob: schedule.Job | undefined
     let piscina: Piscina | undefined
     let queue: Queue | undefined
     let jobQueueConsumer: JobQueueConsumerControl | undefined
@@ -75,6 +78,7 @@ export async function startPluginsServer(
         actionsReloadJob && schedule.cancelJob(actionsReloadJob)
         pingJob && schedule.cancelJob(pingJob)
         pluginMetricsJob && schedule.cancelJob(pluginMetricsJob)
+        propertyTypeCountsJob && schedule.cancelJob(propertyTypeCountsJob)
         statusReport.stopStatusReportSchedule()
         piscinaStatsJob && schedule.cancelJob(piscinaStatsJob)
         internalMetricsStatsJob && schedule.cancelJob(internalMetricsStatsJob)
@@ -140,6 +144,20 @@ export async function startPluginsServer(
             void jobQueueConsumer?.resume()
         })
 
+        // runs the task for a message on only one instance, as pub-sub delivers it to all of them
+        const runOnce =
+            (channel: string, task: string) =>
+            async (message: string): Promise<void> => {
+                try {
+                    if (await claimPubSubMessage(hub!.db, channel, message)) {
+                        await piscina?.run({ task, args: JSON.parse(message) })
+                    }
+                } catch (error) {
+                    status.error('⚠️', `Failed to run ${task} for a message on pub-sub channel ${channel}:`, error)
+                    Sentry.captureException(error, { extra: { channel, message } })
+                }
+            }
+
         // use one extra Redis connection for pub-sub
         pubSub = new PubSub(hub, {
             [hub.PLUGINS_RELOAD_PUBSUB_CHANNEL]: async () => {
@@ -151,6 +169,12 @@ export async function startPluginsServer(
                 await piscina?.broadcastTask({ task: 'reloadAction', args: JSON.parse(message) }),
             'drop-action': async (message) =>
                 await piscina?.broadcastTask({ task: 'dropAction', args: JSON.parse(message) }),
+            'erase-person': runOnce('erase-person', 'erasePerson'),
+            [SUPPRESSED_DISTINCT_IDS_INVALIDATION_CHANNEL]: async (message) =>
+                await piscina?.broadcastTask({ task: 'invalidateSuppressedDistinctIds', args: JSON.parse(message) }),
+            'split-person': runOnce('split-person', 'splitPerson'),
+            [PERSON_CACHE_INVALIDATION_CHANNEL]: async (message) =>
+                await piscina?.broadcastTask({ task: 'invalidatePersonCache', args: JSON.parse(message) }),
         })
         await pubSub.start()
 
@@ -190,6 +214,11 @@ export async function startPluginsServer(
             await piscina!.broadcastTask({ task: 'sendPluginMetrics' })
         })
 
+        // every minute write the property types seen by workers to Postgres
+        propertyTypeCountsJob = schedule.scheduleJob('30 * * * * *', async () => {
+            await piscina!.broadcastTask({ task: 'flushPropertyTypeCounts' })
+        })
+
         if (serverConfig.STALENESS_RESTART_SECONDS > 0) {
             // check every 10 sec how long it has been since the last activity
             let lastFoundActivity: number
@@ -246,6 +275,10 @@ export async function stopPiscina(piscina: Piscina): Promise<void> {
     // Wait *up to* 5 seconds to shut down VMs.
     await Promise.race([piscina.broadcastTask({ task: 'teardownPlugins' }), delay(5000)])
     // Wait 2 seconds to flush the last queues.
-    await Promise.all([piscina.broadcastTask({ task: 'flushKafkaMessages' }), delay(2000)])
+    await Promise.all([
+        piscina.broadcastTask({ task: 'flushKafkaMessages' }),
+        piscina.broadcastTask({ task: 'flushPropertyTypeCounts' }),
+        delay(2000),
+    ])
     await piscina.destroy()
 }
@@ -0,0 +1,60 @@
+import { PluginEvent } from '@posthog/plugin-scaffold'
+import { DateTime } from 'luxon'
+
+import { DeadLetterQueueCursor, DeadLetterQueueEvent, Hub, IngestionStage } from '../../types'
+import { status } from '../../utils/status'
+import { ingestEvent } from '../../worker/ingestion/ingest-event'
+
+export const DEAD_LETTER_QUEUE_REPLAYED_UNTIL_KEY = '@posthog-plugin-server/dead-letter-queue-replayed-until'
+const REPLAY_BATCH_SIZE = 1000
+
+export interface ReplayDeadLetterQueueResult {
+    replayed: number
+    skipped: number
+    failed: number
+}
+
+/**
+ * Run all events that have been dead-lettered since the last replay through worker ingestion again.
+ *
+ * Only events that failed in `processEvent` are replayed, as in later stages the event has already been stored
+ * and replaying it would produce a duplicate. Events that fail again get a fresh dead letter queue entry.
+ */
+export async function replayDeadLetterQueue(hub: Hub): Promise<ReplayDeadLetterQueueResult> {
+    const replayedUntil = (await hub.db.redisGet(DEAD_LETTER_QUEUE_REPLAYED_UNTIL_KEY, null)) as string | null
+    const until = DateTime.utc()
+    let since: DeadLetterQueueCursor | null = replayedUntil ? { timestamp: DateTime.fromISO(replayedUntil) } : null
+    const result: ReplayDeadLetterQueueResult = { replayed: 0, skipped: 0, failed: 0 }
+
+    while (true) {
+        const deadLetterQueueEvents = await hub.db.fetchDeadLetterQueueEvents(since, until, REPLAY_BATCH_SIZE)
+        if (!deadLetterQueueEvents.length) {
+            break
+        }
+        const replayedIds: DeadLetterQueueEvent['id'][] = []
+        for (const deadLetterQueueEvent of deadLetterQueueEvents) {
+            if (deadLetterQueueEvent.error_location !== IngestionStage.ProcessEvent) {
+                result.skipped++
+                continue
+            }
+            const event: PluginEvent = JSON.parse(deadLetterQueueEvent.raw_payload)
+            const response = await ingestEvent(hub, event)
+            if (response.error) {
+                result.failed++
+            } else {
+                result.replayed++
+            }
+            replayedIds.push(deadLetterQueueEvent.id)
+        }
+        await hub.db.deleteDeadLetterQueueEvents(replayedIds)
+        const lastEvent = deadLetterQueueEvents[deadLetterQueueEvents.length - 1]
+        since = { timestamp: DateTime.fromISO(lastEvent.error_timestamp), id: lastEvent.id }
+        status.info(
+            '🔁',
+            `Replayed ${result.replayed} dead-lettered events so far (${result.skipped} skipped, ${result.failed} failed again)`
+        )
+    }
+
+    await hub.db.redisSet(DEAD_LETTER_QUEUE_REPLAYED_UNTIL_KEY, until.toISO())
+    return result
+}
@@ -1,4 +1,5 @@
 import Piscina from '@posthog/piscina'
+import * as Sentry from '@sentry/node'
 import * as schedule from 'node-schedule'
 
 import { Hub, PluginConfigId, ScheduleControl } from '../../types'
@@ -35,6 +36,15 @@ export async function startSchedule(server: Hub, piscina: Piscina, onLock?: () =
             (await pluginSchedulePromise) &&
             runScheduleDebounced(server!, piscina!, 'runEveryDay')
     })
+    let actionAlertsPromise: Promise<any> | null = null
+    const checkActionAlertsJob = schedule.scheduleJob('* * * * *', () => {
+        // last check still running? skip rechecking!
+        if (!stopped && weHaveTheLock && !actionAlertsPromise) {
+            actionAlertsPromise = checkActionAlerts(piscina).finally(() => {
+                actionAlertsPromise = null
+            })
+        }
+    })
 
     const unlock = await startRedlock({
         server,
@@ -54,9 +64,11 @@ export async function startSchedule(server: Hub, piscina: Piscina, onLock?: () =
         runEveryDayJob && schedule.cancelJob(runEveryDayJob)
         runEveryHourJob && schedule.cancelJob(runEveryHourJob)
         runEveryMinuteJob && schedule.cancelJob(runEveryMinuteJob)
+        checkActionAlertsJob && schedule.cancelJob(checkActionAlertsJob)
 
         await unlock()
         await waitForTasksToFinish(server!)
+        await actionAlertsPromise
     }
 
     const reloadSchedule = async () => {
@@ -104,6 +116,18 @@ export function runScheduleDebounced(server: Hub, piscina: Piscina, taskName: st
     }
 }
 
+export async function checkActionAlerts(piscina: Piscina): Promise<void> {
+    try {
+        const postedCount: number = await piscina.run({ task: 'checkActionAlerts' })
+        if (postedCount) {
+            status.info('🚨', `Posted ${postedCount} action alerts`)
+        }
+    } catch (error) {
+        status.error('🔴', 'Error checking action alerts!\n', error)
+        Sentry.captureException(error)
+    }
+}
+
 export async function waitForTasksToFinish(server: Hub): Promise<any[]> {
     const activePromises = Object.values(server.pluginSchedulePromises)
         .map(Object.values)
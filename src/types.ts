@@ -10,13 +10,16 @@ import { Job } from 'node-schedule'
 import { Pool } from 'pg'
 import { VM } from 'vm2'
 
+import { IngestionRateLimiter } from './main/ingestion-queues/rate-limiter'
 import { DB } from './utils/db/db'
 import { KafkaProducerWrapper } from './utils/db/kafka-producer-wrapper'
 import { InternalMetrics } from './utils/internal-metrics'
 import { PluginMetricsManager } from './utils/plugin-metrics'
 import { UUID } from './utils/utils'
+import { ActionAlertManager } from './worker/ingestion/action-alert-manager'
 import { ActionManager } from './worker/ingestion/action-manager'
 import { ActionMatcher } from './worker/ingestion/action-matcher'
+import { CohortManager } from './worker/ingestion/cohort-manager'
 import { HookCommander } from './worker/ingestion/hooks'
 import { OrganizationManager } from './worker/ingestion/organization-manager'
 import { EventsProcessor } from './worker/ingestion/process-event'
@@ -101,6 +104,30 @@ export interface PluginsServerConfig extends Record<string, any> {
     PLUGIN_SERVER_ACTION_MATCHING: 0 | 1 | 2
     PISCINA_USE_ATOMICS: boolean
     PISCINA_ATOMICS_TIMEOUT: number
+    EVENT_DEDUPLICATION_WINDOW_SECONDS: number
+    EVENT_MAX_FUTURE_DRIFT_SECONDS: number
+    EVENT_MAX_AGE_SECONDS: number
+    EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING: 'clamp' | 'reject'
+    INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: number
+    INGESTION_RATE_LIMIT_BURST: number
+    INGESTION_RATE_LIMIT_OVERRIDES: string
+    INGESTION_RATE_LIMIT_ACTION: 'drop' | 'delay' | 'count'
+    INGESTION_RATE_LIMIT_DELAY_SECONDS: number
+    EVENT_PROPERTIES_MAX_BYTES: number
+    EVENT_PROPERTIES_MAX_KEYS: number
+    EVENT_PROPERTIES_MAX_DEPTH: number
+    EVENT_PROPERTY_MAX_STRING_LENGTH: number
+    EVENT_SCHEMA_VALIDATION: boolean
+    PERSON_MERGE_REFUSE_IDENTIFIED: boolean
+    PERSON_MAX_DISTINCT_IDS: number
+    PERSON_CACHE_SIZE: number
+    PERSON_CACHE_TTL_SECONDS: number
+    SESSION_RECORDING_CHUNK_SIZE: number
+    SESSION_RECORDING_BUFFER_TTL_SECONDS: number
+    SITE_URL: string | null
+    WEBHOOK_TIMEOUT_SECONDS: number
+    WEBHOOK_MAX_ATTEMPTS: number
+    WEBHOOK_RETRY_DELAY_SECONDS: number
 }
 
 export interface Hub extends PluginsServerConfig {
@@ -130,10 +157,13 @@ export interface Hub extends PluginsServerConfig {
     teamManager: TeamManager
     organizationManager: OrganizationManager
     actionManager: ActionManager
+    cohortManager: CohortManager
     actionMatcher: ActionMatcher
+    actionAlertManager: ActionAlertManager
     hookCannon: HookCommander
     eventsProcessor: EventsProcessor
     jobQueueManager: JobQueueManager
+    ingestionRateLimiter: IngestionRateLimiter
     // diagnostics
     lastActivity: number
     lastActivityType: string
@@ -319,6 +349,7 @@ export type WorkerMethods = {
     onSnapshot: (event: PluginEvent) => Promise<void>
     processEvent: (event: PluginEvent) => Promise<PluginEvent | null>
     ingestEvent: (event: PluginEvent) => Promise<IngestEventResponse>
+    ingestEventBatch: (events: PluginEvent[]) => Promise<IngestEventResponse[]>
 }
 
 export type VMMethods = {
@@ -404,6 +435,14 @@ export interface Team {
     opt_out_capture: boolean
     slack_incoming_webhook: string
     session_recording_opt_in: boolean
+    /** Share of sessions to record, between 0 and 1. Null records all sessions. */
+    session_recording_sample_rate: number | null
+    /** Sessions shorter than this aren't recorded. */
+    session_recording_minimum_duration_milliseconds: number | null
+    /** If set, only sessions with any of these events are recorded. */
+    session_recording_trigger_events: string[] | null
+    /** If set, only sessions visiting a URL containing any of these are recorded. */
+    session_recording_trigger_urls: string[] | null
     ingested_event: boolean
 }
 
@@ -446,6 +485,18 @@ export interface ClickHouseEvent extends Omit<Event, 'id' | 'elements' | 'elemen
     elements_chain: string
 }
 
+/** How a person property was last written. */
+export enum PropertyUpdateOperation {
+    Set = 'set',
+    SetOnce = 'set_once',
+}
+
+/** When each person property last changed, as ISO timestamps. */
+export type PropertiesLastUpdatedAt = Record<string, string>
+
+/** Which operation each person property last changed with. */
+export type PropertiesLastOperation = Record<string, PropertyUpdateOperation>
+
 /** Properties shared by RawPerson and Person. */
 export interface BasePerson {
     id: number
@@ -454,6 +505,9 @@ export interface BasePerson {
     is_user_id: number
     is_identified: boolean
     uuid: string
+    /** Null for persons whose properties haven't changed since this started being tracked. */
+    properties_last_updated_at: PropertiesLastUpdatedAt | null
+    properties_last_operation: PropertiesLastOperation | null
 }
 
 /** Raw Person row from database. */
@@ -499,7 +553,7 @@ export interface Cohort {
     id: number
     name: string
     deleted: boolean
-    groups: any[]
+    groups: CohortGroup[]
     team_id: Team['id']
     created_at: string
     created_by_id: number
@@ -509,6 +563,16 @@ export interface Cohort {
     is_static: boolean
 }
 
+/** Criteria group of a cohort, matched by a person either having all its properties or by behavior. */
+export interface CohortGroup {
+    /** Property criteria, all of which must match. Older cohorts leave out the type of person property filters. */
+    properties?: (PropertyFilter | Omit<PersonPropertyFilter, 'type'>)[]
+    /** Behavioral criteria: having performed the action or event, within the last `days`. */
+    action_id?: Action['id']
+    event_id?: string
+    days?: number
+}
+
 /** Usable CohortPeople model. */
 export interface CohortPeople {
     id: number
@@ -540,6 +604,20 @@ export enum PropertyOperator {
     LessThan = 'lt',
     IsSet = 'is_set',
     IsNotSet = 'is_not_set',
+    /** Between two values, inclusive. */
+    Between = 'between',
+    NotBetween = 'not_between',
+    /** Before a date, absolute or relative to event time like "-7d". */
+    IsDateBefore = 'is_date_before',
+    IsDateAfter = 'is_date_after',
+    /** Within the specified time before the event, like "7d". */
+    IsDateWithin = 'is_date_within',
+    StartsWith = 'starts_with',
+    EndsWith = 'ends_with',
+    /** For lists: containing any of the values. */
+    ContainsAny = 'contains_any',
+    ContainsAll = 'contains_all',
+    NotContainsAny = 'not_contains_any',
 }
 
 /** Sync with posthog/frontend/src/types.ts */
@@ -615,6 +693,8 @@ export interface RawAction {
     is_calculating: boolean
     updated_at: string
     last_calculated_at: string
+    /** Whether the action is also matched against session recording events, like `$session_recording_started`. */
+    match_session_recording_events?: boolean
 }
 
 /** Usable Action model. */
@@ -622,6 +702,26 @@ export interface Action extends RawAction {
     steps: ActionStep[]
 }
 
+export enum ActionAlertType {
+    /** Alert when the action matches more than `threshold` times within the window. */
+    MoreThan = 'more_than',
+    /** Alert when the action matches less than `threshold` times within the window, e.g. not at all for 1. */
+    LessThan = 'less_than',
+}
+
+/** Rule alerting the team's webhook when an action matches too often or too rarely. */
+export interface ActionAlert {
+    id: number
+    team_id: TeamId
+    action_id: Action['id']
+    alert_type: ActionAlertType
+    threshold: number
+    /** Capped at `ACTION_ALERT_MAX_WINDOW_MINUTES` (a day), as match counts aren't kept for longer. */
+    window_minutes: number
+    created_at: string
+    deleted: boolean
+}
+
 /** Action<>Event mapping row. */
 export interface ActionEventPair {
     id: number
@@ -666,6 +766,64 @@ export interface JobQueueConsumerControl {
 
 export type IngestEventResponse = { success?: boolean; error?: string }
 
+/** Stage of worker ingestion at which an event can fail. */
+export enum IngestionStage {
+    ProcessEvent = 'processEvent',
+    ActionMatching = 'actionMatching',
+    /** Rejected for an out of bounds timestamp. Not replayed, as it would only be rejected again. */
+    TimestampValidation = 'timestampValidation',
+}
+
+/** A webhook or REST hook request, as retried through the job queue until delivered. */
+export interface WebhookDelivery {
+    teamId: TeamId
+    url: string
+    /** JSON-encoded request body. */
+    body: string
+    actionId: Action['id'] | null
+    /** REST hook the request is for, null for the team's webhook. */
+    hookId: Hook['id'] | null
+    /** Number of this delivery attempt, starting from 1. */
+    attempt: number
+}
+
+/** Outcome of a webhook delivery attempt, as stored for users to see. Only failures and late successes are stored. */
+export interface WebhookDeliveryAttempt {
+    id: string
+    team_id: TeamId
+    action_id: Action['id'] | null
+    hook_id: Hook['id'] | null
+    url: string
+    attempt: number
+    /** HTTP status of the response, null if there was none, e.g. after a timeout. */
+    status_code: number | null
+    error: string | null
+    succeeded: boolean
+    will_retry: boolean
+    created_at: string
+}
+
+/** Event that failed ingestion, as stored in the dead letter queue. */
+export interface DeadLetterQueueEvent {
+    id: string
+    event_uuid: string
+    event: string
+    team_id: number
+    distinct_id: string
+    /** JSON-encoded original PluginEvent. */
+    raw_payload: string
+    error_timestamp: string
+    error_location: IngestionStage
+    error: string
+}
+
+/** Position in the dead letter queue, events are ordered by `error_timestamp` and then by `id`. */
+export interface DeadLetterQueueCursor {
+    timestamp: DateTime
+    /** If not set, all events failing exactly at `timestamp` count as before the cursor. */
+    id?: DeadLetterQueueEvent['id']
+}
+
 export interface EventDefinitionType {
     id: string
     name: string
@@ -683,4 +841,47 @@ export interface PropertyDefinitionType {
     team_id: number
 }
 
+export enum PropertyType {
+    String = 'String',
+    Numeric = 'Numeric',
+    Boolean = 'Boolean',
+    DateTime = 'DateTime',
+    /** Objects and arrays. */
+    Object = 'Object',
+}
+
+/** How many times a property has been seen with values of a particular type. */
+export interface PropertyTypeCount {
+    team_id: number
+    name: string
+    property_type: PropertyType
+    count: number
+    last_seen_at: string
+}
+
+/** A property that has been seen with values of more than one type. */
+export interface PropertyTypeDrift {
+    name: string
+    type_counts: Partial<Record<PropertyType, number>>
+}
+
+/** What to do with an event whose properties don't match the event's schema. */
+export enum SchemaEnforcement {
+    /** Ingest the event, listing the offending properties in `$schema_violations`. */
+    Tag = 'tag',
+    /** Don't ingest the event at all. */
+    Reject = 'reject',
+    /** Convert offending properties to the expected type, tagging the event if that's impossible. */
+    Coerce = 'coerce',
+}
+
+/** Expected property types for events of one name in a team. */
+export interface EventSchema {
+    id: string
+    team_id: number
+    event: string
+    properties: Record<string, PropertyType>
+    enforcement: SchemaEnforcement
+}
+
 export type PluginFunction = 'onEvent' | 'processEvent' | 'onSnapshot' | 'pluginTask'
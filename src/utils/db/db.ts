@@ -8,9 +8,17 @@ import { ProducerRecord } from 'kafkajs'
 import { DateTime } from 'luxon'
 import { Pool, PoolClient, QueryConfig, QueryResult, QueryResultRow } from 'pg'
 
-import { KAFKA_PERSON, KAFKA_PERSON_UNIQUE_ID, KAFKA_PLUGIN_LOG_ENTRIES } from '../../config/kafka-topics'
+import { IEvent } from '../../config/idl/protos'
+import {
+    KAFKA_ACTION_EVENTS,
+    KAFKA_EVENTS_DEAD_LETTER_QUEUE,
+    KAFKA_PERSON,
+    KAFKA_PERSON_UNIQUE_ID,
+    KAFKA_PLUGIN_LOG_ENTRIES,
+} from '../../config/kafka-topics'
 import {
     Action,
+    ActionAlert,
     ActionEventPair,
     ActionStep,
     ClickHouseEvent,
@@ -19,10 +27,13 @@ import {
     Cohort,
     CohortPeople,
     Database,
+    DeadLetterQueueCursor,
+    DeadLetterQueueEvent,
     Element,
     ElementGroup,
     Event,
     EventDefinitionType,
+    EventSchema,
     Hook,
     Person,
     PersonDistinctId,
@@ -31,13 +42,20 @@ import {
     PluginLogEntrySource,
     PluginLogEntryType,
     PostgresSessionRecordingEvent,
+    PropertiesLastOperation,
+    PropertiesLastUpdatedAt,
     PropertyDefinitionType,
+    PropertyType,
+    PropertyTypeCount,
+    PropertyTypeDrift,
     RawAction,
     RawOrganization,
     RawPerson,
     SessionRecordingEvent,
     Team,
+    TeamId,
     TimestampFormat,
+    WebhookDeliveryAttempt,
 } from '../../types'
 import { instrumentQuery } from '../metrics'
 import {
@@ -50,6 +68,7 @@ import {
     UUIDT,
 } from '../utils'
 import { KafkaProducerWrapper } from './kafka-producer-wrapper'
+import { PERSON_CACHE_INVALIDATION_CHANNEL, PersonCache } from './person-cache'
 import { PostgresLogsWrapper } from './postgres-logs-wrapper'
 import { chainToElements, hashElements, timeoutGuard, unparsePersonPartial } from './utils'
 
@@ -92,19 +111,28 @@ export class DB {
     /** A buffer for Postgres logs to prevent too many log insert ueries */
     postgresLogsWrapper: PostgresLogsWrapper
 
+    /** Cache of persons by distinct ID, if enabled. */
+    personCache: PersonCache | undefined
+
+    /** Whether person property tracking columns exist, along with when that was last checked. */
+    personPropertiesTrackingCache: [boolean, number] | null
+
     constructor(
         postgres: Pool,
         redisPool: GenericPool<Redis.Redis>,
         kafkaProducer: KafkaProducerWrapper | undefined,
         clickhouse: ClickHouse | undefined,
-        statsd: StatsD | undefined
+        statsd: StatsD | undefined,
+        personCache?: PersonCache
     ) {
         this.postgres = postgres
         this.redisPool = redisPool
         this.kafkaProducer = kafkaProducer
         this.clickhouse = clickhouse
         this.statsd = statsd
+        this.personCache = personCache
         this.postgresLogsWrapper = new PostgresLogsWrapper(this)
+        this.personPropertiesTrackingCache = null
     }
 
     // Postgres
@@ -215,6 +243,33 @@ export class DB {
         })
     }
 
+    /** Set the key unless it's set already, e.g. to claim something for a while. Returns whether the key got set. */
+    public redisSetNX(key: string, value: string, ttlSeconds: number): Promise<boolean> {
+        return instrumentQuery(this.statsd, 'query.redisSetNX', undefined, async () => {
+            const client = await this.redisPool.acquire()
+            const timeout = timeoutGuard('Setting redis key delayed. Waiting over 30 sec to set key', { key })
+            try {
+                return (await client.set(key, value, 'EX', ttlSeconds, 'NX')) === 'OK'
+            } finally {
+                clearTimeout(timeout)
+                await this.redisPool.release(client)
+            }
+        })
+    }
+
+    public redisDelete(key: string): Promise<number> {
+        return instrumentQuery(this.statsd, 'query.redisDelete', undefined, async () => {
+            const client = await this.redisPool.acquire()
+            const timeout = timeoutGuard('Deleting redis key delayed. Waiting over 30 sec to delete key', { key })
+            try {
+                return await client.del(key)
+            } finally {
+                clearTimeout(timeout)
+                await this.redisPool.release(client)
+            }
+        })
+    }
+
     public redisIncr(key: string): Promise<number> {
         return instrumentQuery(this.statsd, 'query.redisIncr', undefined, async () => {
             const client = await this.redisPool.acquire()
@@ -228,6 +283,25 @@ export class DB {
         })
     }
 
+    /** Get raw values of many keys at once, null for missing ones. */
+    public redisMGet(keys: string[]): Promise<(string | null)[]> {
+        return instrumentQuery(this.statsd, 'query.redisMGet', undefined, async () => {
+            if (!keys.length) {
+                return []
+            }
+            const client = await this.redisPool.acquire()
+            const timeout = timeoutGuard('Getting redis keys delayed. Waiting over 30 sec to get keys.', {
+                keyCount: keys.length,
+            })
+            try {
+                return await client.mget(...keys)
+            } finally {
+                clearTimeout(timeout)
+                await this.redisPool.release(client)
+            }
+        })
+    }
+
     public redisExpire(key: string, ttlSeconds: number): Promise<boolean> {
         return instrumentQuery(this.statsd, 'query.redisExpire', undefined, async () => {
             const client = await this.redisPool.acquire()
@@ -241,6 +315,19 @@ export class DB {
         })
     }
 
+    public redisPublish(channel: string, message: string): Promise<number> {
+        return instrumentQuery(this.statsd, 'query.redisPublish', undefined, async () => {
+            const client = await this.redisPool.acquire()
+            const timeout = timeoutGuard('Publishing to redis delayed. Waiting over 30 sec to publish', { channel })
+            try {
+                return await client.publish(channel, message)
+            } finally {
+                clearTimeout(timeout)
+                await this.redisPool.release(client)
+            }
+        })
+    }
+
     public redisLPush(key: string, value: unknown, options: CacheOptions = {}): Promise<number> {
         const { jsonSerialize = true } = options
 
@@ -289,6 +376,22 @@ export class DB {
         })
     }
 
+    /** Run a Lua script, which Redis executes atomically. */
+    public redisEval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+        return instrumentQuery(this.statsd, 'query.redisEval', undefined, async () => {
+            const client = await this.redisPool.acquire()
+            const timeout = timeoutGuard('Evaluating redis script delayed. Waiting over 30 sec to eval script', {
+                keys,
+            })
+            try {
+                return await client.eval(script, keys.length, ...keys, ...args)
+            } finally {
+                clearTimeout(timeout)
+                await this.redisPool.release(client)
+            }
+        })
+    }
+
     public redisBRPop(key1: string, key2: string): Promise<[string, string]> {
         return instrumentQuery(this.statsd, 'query.redisBRPop', undefined, async () => {
             const client = await this.redisPool.acquire()
@@ -340,9 +443,20 @@ export class DB {
     }
 
     public async fetchPerson(teamId: number, distinctId: string): Promise<Person | undefined> {
+        const cachedPerson = this.personCache?.get(teamId, distinctId)
+        if (cachedPerson) {
+            this.statsd?.increment('person_cache.hit', { team_id: teamId.toString() })
+            return cachedPerson
+        }
+        if (this.personCache) {
+            this.statsd?.increment('person_cache.miss', { team_id: teamId.toString() })
+        }
+
         const selectResult = await this.postgresQuery(
             `SELECT
                 posthog_person.id, posthog_person.created_at, posthog_person.team_id, posthog_person.properties,
+                to_jsonb(posthog_person)->'properties_last_updated_at' AS properties_last_updated_at,
+                to_jsonb(posthog_person)->'properties_last_operation' AS properties_last_operation,
                 posthog_person.is_user_id, posthog_person.is_identified, posthog_person.uuid,
                 posthog_persondistinctid.team_id AS persondistinctid__team_id,
                 posthog_persondistinctid.distinct_id AS persondistinctid__distinct_id
@@ -357,8 +471,49 @@ export class DB {
         )
         if (selectResult.rows.length > 0) {
             const rawPerson: RawPerson = selectResult.rows[0]
-            return { ...rawPerson, created_at: DateTime.fromISO(rawPerson.created_at).toUTC() }
+            const person: Person = { ...rawPerson, created_at: DateTime.fromISO(rawPerson.created_at).toUTC() }
+            this.personCache?.set(teamId, distinctId, person)
+            return person
+        }
+    }
+
+    /** Fetch persons of many distinct IDs, possibly across teams, with a single query. Keyed by team, then distinct ID. */
+    public async fetchPersonsByDistinctIds(
+        teamDistinctIds: [TeamId, string][]
+    ): Promise<Map<TeamId, Map<string, Person>>> {
+        const persons = new Map<TeamId, Map<string, Person>>()
+        if (!teamDistinctIds.length) {
+            return persons
+        }
+        const selectResult = await this.postgresQuery(
+            `SELECT
+                posthog_person.id, posthog_person.created_at, posthog_person.team_id, posthog_person.properties,
+                to_jsonb(posthog_person)->'properties_last_updated_at' AS properties_last_updated_at,
+                to_jsonb(posthog_person)->'properties_last_operation' AS properties_last_operation,
+                posthog_person.is_user_id, posthog_person.is_identified, posthog_person.uuid,
+                posthog_persondistinctid.team_id AS persondistinctid__team_id,
+                posthog_persondistinctid.distinct_id AS persondistinctid__distinct_id
+            FROM posthog_person
+            JOIN posthog_persondistinctid ON (posthog_persondistinctid.person_id = posthog_person.id)
+            JOIN UNNEST($1::integer[], $2::text[]) AS batch (team_id, distinct_id) ON (
+                posthog_persondistinctid.team_id = batch.team_id
+                AND posthog_persondistinctid.distinct_id = batch.distinct_id
+            )
+            WHERE posthog_person.team_id = posthog_persondistinctid.team_id`,
+            [teamDistinctIds.map(([teamId]) => teamId), teamDistinctIds.map(([, distinctId]) => distinctId)],
+            'fetchPersonsByDistinctIds'
+        )
+        for (const row of selectResult.rows) {
+            const rawPerson: RawPerson = row
+            if (!persons.has(rawPerson.team_id)) {
+                persons.set(rawPerson.team_id, new Map())
+            }
+            persons.get(rawPerson.team_id)!.set(row.persondistinctid__distinct_id, {
+                ...rawPerson,
+                created_at: DateTime.fromISO(rawPerson.created_at).toUTC(),
+            })
         }
+        return persons
     }
 
     public async createPerson(
@@ -368,17 +523,37 @@ export class DB {
         isUserId: number | null,
         isIdentified: boolean,
         uuid: string,
-        distinctIds?: string[]
+        distinctIds?: string[],
+        propertiesLastUpdatedAt: PropertiesLastUpdatedAt = {},
+        propertiesLastOperation: PropertiesLastOperation = {}
     ): Promise<Person> {
         const kafkaMessages: ProducerRecord[] = []
 
+        const hasPropertiesTracking = await this.hasPersonPropertiesTracking()
+
         const person = await this.postgresTransaction(async (client) => {
-            const insertResult = await client.query(
-                'INSERT INTO posthog_person (created_at, properties, team_id, is_user_id, is_identified, uuid) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
-                [createdAt.toISO(), JSON.stringify(properties), teamId, isUserId, isIdentified, uuid]
-            )
+            const insertResult = hasPropertiesTracking
+                ? await client.query(
+                      'INSERT INTO posthog_person (created_at, properties, properties_last_updated_at, properties_last_operation, team_id, is_user_id, is_identified, uuid) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
+                      [
+                          createdAt.toISO(),
+                          JSON.stringify(properties),
+                          JSON.stringify(propertiesLastUpdatedAt),
+                          JSON.stringify(propertiesLastOperation),
+                          teamId,
+                          isUserId,
+                          isIdentified,
+                          uuid,
+                      ]
+                  )
+                : await client.query(
+                      'INSERT INTO posthog_person (created_at, properties, team_id, is_user_id, is_identified, uuid) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
+                      [createdAt.toISO(), JSON.stringify(properties), teamId, isUserId, isIdentified, uuid]
+                  )
             const personCreated = insertResult.rows[0] as RawPerson
             const person = {
+                properties_last_updated_at: null,
+                properties_last_operation: null,
                 ...personCreated,
                 created_at: DateTime.fromISO(personCreated.created_at).toUTC(),
             } as Person
@@ -427,40 +602,130 @@ export class DB {
 
     public async updatePerson(person: Person, update: Partial<Person>): Promise<Person> {
         const updatedPerson: Person = { ...person, ...update }
-        const values = [...Object.values(unparsePersonPartial(update)), person.id]
-        await this.postgresQuery(
-            `UPDATE posthog_person SET ${Object.keys(update).map(
-                (field, index) => `"${sanitizeSqlIdentifier(field)}" = $${index + 1}`
-            )} WHERE id = $${Object.values(update).length + 1}`,
-            values,
-            'updatePerson'
-        )
+        const storedUpdate = await this.withoutMissingPersonColumns(update)
+        if (Object.keys(storedUpdate).length) {
+            const values = [...Object.values(unparsePersonPartial(storedUpdate)), person.id]
+            await this.postgresQuery(
+                `UPDATE posthog_person SET ${Object.keys(storedUpdate).map(
+                    (field, index) => `"${sanitizeSqlIdentifier(field)}" = $${index + 1}`
+                )} WHERE id = $${Object.values(storedUpdate).length + 1}`,
+                values,
+                'updatePerson'
+            )
+        }
+        await this.invalidatePersonCache([person.id])
 
         if (this.kafkaProducer) {
-            await this.kafkaProducer.queueMessage({
-                topic: KAFKA_PERSON,
-                messages: [
-                    {
-                        value: Buffer.from(
-                            JSON.stringify({
-                                created_at: castTimestampOrNow(
-                                    updatedPerson.created_at,
-                                    TimestampFormat.ClickHouseSecondPrecision
-                                ),
-                                properties: JSON.stringify(updatedPerson.properties),
-                                team_id: updatedPerson.team_id,
-                                is_identified: updatedPerson.is_identified,
-                                id: updatedPerson.uuid,
-                            })
-                        ),
-                    },
-                ],
-            })
+            await this.kafkaProducer.queueMessage(this.personUpdateMessage(updatedPerson))
+        }
+
+        return updatedPerson
+    }
+
+    /**
+     * Whether `posthog_person` has the columns tracking when and how properties were last written. They're added by
+     * a migration of the main app, and aren't written until it has run. Until then, it's checked again every minute.
+     */
+    public async hasPersonPropertiesTracking(maxAgeMs = 60_000): Promise<boolean> {
+        if (
+            !this.personPropertiesTrackingCache ||
+            (!this.personPropertiesTrackingCache[0] && Date.now() - this.personPropertiesTrackingCache[1] > maxAgeMs)
+        ) {
+            const { rows } = await this.postgresQuery(
+                `SELECT COUNT(*)::int AS count FROM information_schema.columns
+                WHERE table_name = 'posthog_person'
+                AND column_name IN ('properties_last_updated_at', 'properties_last_operation')`,
+                undefined,
+                'hasPersonPropertiesTracking'
+            )
+            this.personPropertiesTrackingCache = [rows[0].count === 2, Date.now()]
+        }
+        return this.personPropertiesTrackingCache[0]
+    }
+
+    /** Leave out of a person update the columns that don't exist yet, see `hasPersonPropertiesTracking`. */
+    private async withoutMissingPersonColumns(update: Partial<Person>): Promise<Partial<Person>> {
+        if (await this.hasPersonPropertiesTracking()) {
+            return update
+        }
+        const { properties_last_updated_at, properties_last_operation, ...storedUpdate } = update
+        return storedUpdate
+    }
+
+    /**
+     * Update a person based on their current state, which is read and written in one transaction with the row locked.
+     * `getUpdate` returning null means there's nothing to update. Resolves to the person as of the transaction,
+     * or to undefined if they no longer exist.
+     */
+    public async updatePersonAtomically(
+        person: Person,
+        getUpdate: (currentPerson: Person) => Partial<Person> | null
+    ): Promise<Person | undefined> {
+        const [updatedPerson, updated] = await this.postgresTransaction(
+            async (client): Promise<[Person | undefined, boolean]> => {
+                const selectResult = await client.query(
+                    'SELECT * FROM posthog_person WHERE team_id = $1 AND id = $2 FOR UPDATE',
+                    [person.team_id, person.id]
+                )
+                if (!selectResult.rows.length) {
+                    return [undefined, false]
+                }
+                const rawPerson: RawPerson = selectResult.rows[0]
+                const currentPerson: Person = {
+                    properties_last_updated_at: null,
+                    properties_last_operation: null,
+                    ...rawPerson,
+                    created_at: DateTime.fromISO(rawPerson.created_at).toUTC(),
+                }
+                const update = getUpdate(currentPerson)
+                if (!update || !Object.keys(update).length) {
+                    return [currentPerson, false]
+                }
+                const storedUpdate = await this.withoutMissingPersonColumns(update)
+                if (Object.keys(storedUpdate).length) {
+                    await client.query(
+                        `UPDATE posthog_person SET ${Object.keys(storedUpdate).map(
+                            (field, index) => `"${sanitizeSqlIdentifier(field)}" = $${index + 1}`
+                        )} WHERE id = $${Object.values(storedUpdate).length + 1}`,
+                        [...Object.values(unparsePersonPartial(storedUpdate)), person.id]
+                    )
+                }
+                return [{ ...currentPerson, ...update }, true]
+            }
+        )
+
+        if (updated) {
+            await this.invalidatePersonCache([person.id])
+        }
+        if (this.kafkaProducer && updatedPerson && updated) {
+            await this.kafkaProducer.queueMessage(this.personUpdateMessage(updatedPerson))
         }
 
         return updatedPerson
     }
 
+    private personUpdateMessage(person: Person): ProducerRecord {
+        return {
+            topic: KAFKA_PERSON,
+            messages: [
+                {
+                    value: Buffer.from(
+                        JSON.stringify({
+                            created_at: castTimestampOrNow(
+                                person.created_at,
+                                TimestampFormat.ClickHouseSecondPrecision
+                            ),
+                            properties: JSON.stringify(person.properties),
+                            team_id: person.team_id,
+                            is_identified: person.is_identified,
+                            id: person.uuid,
+                        })
+                    ),
+                },
+            ],
+        }
+    }
+
     // Using Postgres only as a source of truth
     public async incrementPersonProperties(
         person: Person,
@@ -487,6 +752,7 @@ export class DB {
             values,
             'incrementPersonProperties'
         )
+        await this.invalidatePersonCache([person.id])
 
         return newProperties
     }
@@ -495,27 +761,147 @@ export class DB {
         await this.postgresTransaction(async (client) => {
             await client.query('DELETE FROM posthog_person WHERE team_id = $1 AND id = $2', [person.team_id, person.id])
         })
+        await this.invalidatePersonCache([person.id])
         if (this.kafkaProducer) {
-            await this.kafkaProducer.queueMessage({
-                topic: KAFKA_PERSON,
-                messages: [
-                    {
-                        value: Buffer.from(
-                            JSON.stringify({
-                                created_at: castTimestampOrNow(
-                                    person.created_at,
-                                    TimestampFormat.ClickHouseSecondPrecision
-                                ),
-                                properties: JSON.stringify(person.properties),
-                                team_id: person.team_id,
-                                is_identified: person.is_identified,
-                                id: person.uuid,
-                                is_deleted: 1,
-                            })
-                        ),
-                    },
-                ],
-            })
+            await this.kafkaProducer.queueMessage(this.personDeletedMessage(person))
+        }
+    }
+
+    /**
+     * Delete the person along with their distinct IDs and cohort memberships, for good.
+     * The distinct IDs go on the suppression list, so that later events can't bring the person back.
+     * Returns the person's distinct IDs.
+     */
+    public async erasePerson(person: Person): Promise<string[]> {
+        const distinctIdRows = await this.postgresTransaction(async (client) => {
+            await client.query('DELETE FROM posthog_cohortpeople WHERE person_id = $1', [person.id])
+            const deleteResult = await client.query(
+                'DELETE FROM posthog_persondistinctid WHERE team_id = $1 AND person_id = $2 RETURNING *',
+                [person.team_id, person.id]
+            )
+            await client.query('DELETE FROM posthog_person WHERE team_id = $1 AND id = $2', [person.team_id, person.id])
+            const rows = deleteResult.rows as PersonDistinctId[]
+            await this.suppressDistinctIdsPooled(
+                client,
+                person.team_id,
+                rows.map((row) => row.distinct_id)
+            )
+            return rows
+        })
+        await this.invalidatePersonCache([person.id])
+
+        if (this.kafkaProducer) {
+            await this.kafkaProducer.queueMessage(this.personDeletedMessage(person))
+            for (const row of distinctIdRows) {
+                await this.kafkaProducer.queueMessage({
+                    topic: KAFKA_PERSON_UNIQUE_ID,
+                    messages: [
+                        { value: Buffer.from(JSON.stringify({ ...row, person_id: person.uuid, is_deleted: 1 })) },
+                    ],
+                })
+            }
+        }
+
+        return distinctIdRows.map((row) => row.distinct_id)
+    }
+
+    /**
+     * Move distinct IDs of the person to a new person, undoing a merge that shouldn't have happened.
+     * Properties can't be attributed to distinct IDs, so they all stay with the original person.
+     * Returns the new person.
+     */
+    public async splitPerson(person: Person, distinctIds: string[]): Promise<Person> {
+        const [newPerson, movedDistinctIdRows] = await this.postgresTransaction(
+            async (client): Promise<[Person, PersonDistinctId[]]> => {
+                const distinctIdsResult = await client.query(
+                    'SELECT distinct_id FROM posthog_persondistinctid WHERE team_id = $1 AND person_id = $2 FOR UPDATE',
+                    [person.team_id, person.id]
+                )
+                const personDistinctIds: string[] = distinctIdsResult.rows.map((row) => row.distinct_id)
+                const unknownDistinctIds = distinctIds.filter((distinctId) => !personDistinctIds.includes(distinctId))
+                if (unknownDistinctIds.length) {
+                    throw new Error(
+                        `Distinct IDs ${unknownDistinctIds.join(', ')} don't belong to person ${person.uuid}`
+                    )
+                }
+                if (personDistinctIds.every((distinctId) => distinctIds.includes(distinctId))) {
+                    throw new Error(`Can't split all distinct IDs off person ${person.uuid}`)
+                }
+
+                const insertResult = await client.query(
+                    'INSERT INTO posthog_person (created_at, properties, team_id, is_user_id, is_identified, uuid) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
+                    [DateTime.utc().toISO(), '{}', person.team_id, null, false, new UUIDT().toString()]
+                )
+                const rawPerson = insertResult.rows[0] as RawPerson
+                // the new person has no properties, so there's nothing to track yet
+                const newPerson: Person = {
+                    properties_last_updated_at: null,
+                    properties_last_operation: null,
+                    ...rawPerson,
+                    created_at: DateTime.fromISO(rawPerson.created_at).toUTC(),
+                }
+                const updateResult = await client.query(
+                    `UPDATE posthog_persondistinctid SET person_id = $1
+                WHERE team_id = $2 AND person_id = $3 AND distinct_id = ANY($4)
+                RETURNING *`,
+                    [newPerson.id, person.team_id, person.id, distinctIds]
+                )
+                return [newPerson, updateResult.rows as PersonDistinctId[]]
+            }
+        )
+        await this.invalidatePersonCache([person.id])
+
+        if (this.kafkaProducer) {
+            await this.kafkaProducer.queueMessage(this.personUpdateMessage(newPerson))
+            await this.kafkaProducer.queueMessage(this.personUpdateMessage(person))
+            for (const row of movedDistinctIdRows) {
+                await this.kafkaProducer.queueMessage({
+                    topic: KAFKA_PERSON_UNIQUE_ID,
+                    messages: [
+                        { value: Buffer.from(JSON.stringify({ ...row, person_id: newPerson.uuid, is_deleted: 0 })) },
+                    ],
+                })
+                await this.kafkaProducer.queueMessage({
+                    topic: KAFKA_PERSON_UNIQUE_ID,
+                    messages: [
+                        { value: Buffer.from(JSON.stringify({ ...row, person_id: person.uuid, is_deleted: 1 })) },
+                    ],
+                })
+            }
+        }
+
+        return newPerson
+    }
+
+    /** Drop persons from the person cache, both of this worker and - over pub/sub - of all other ones. */
+    public async invalidatePersonCache(personIds: Person['id'][]): Promise<void> {
+        if (!this.personCache) {
+            return
+        }
+        this.personCache.invalidate(personIds)
+        await this.redisPublish(PERSON_CACHE_INVALIDATION_CHANNEL, JSON.stringify({ personIds }))
+    }
+
+    private personDeletedMessage(person: Person): ProducerRecord {
+        return {
+            topic: KAFKA_PERSON,
+            messages: [
+                {
+                    value: Buffer.from(
+                        JSON.stringify({
+                            created_at: castTimestampOrNow(
+                                person.created_at,
+                                TimestampFormat.ClickHouseSecondPrecision
+                            ),
+                            properties: JSON.stringify(person.properties),
+                            team_id: person.team_id,
+                            is_identified: person.is_identified,
+                            id: person.uuid,
+                            is_deleted: 1,
+                        })
+                    ),
+                },
+            ],
         }
     }
 
@@ -552,6 +938,15 @@ export class DB {
         }
     }
 
+    public async countDistinctIds(person: Person): Promise<number> {
+        const result = await this.postgresQuery(
+            'SELECT COUNT(*) FROM posthog_persondistinctid WHERE person_id = $1 AND team_id = $2',
+            [person.id, person.team_id],
+            'countDistinctIds'
+        )
+        return parseInt(result.rows[0].count)
+    }
+
     public async fetchDistinctIdValues(person: Person, database: Database = Database.Postgres): Promise<string[]> {
         const personDistinctIds = await this.fetchDistinctIds(person, database as any)
         return personDistinctIds.map((pdi) => pdi.distinct_id)
@@ -601,6 +996,7 @@ export class DB {
             [target.id, source.id, target.team_id],
             'updateDistinctIdPerson'
         )
+        await this.invalidatePersonCache([source.id])
 
         if (this.kafkaProducer) {
             for (const row of movedDistinctIdResult.rows) {
@@ -620,6 +1016,37 @@ export class DB {
         }
     }
 
+    // SuppressedDistinctId
+
+    public async suppressDistinctIds(teamId: Team['id'], distinctIds: string[]): Promise<void> {
+        await this.suppressDistinctIdsPooled(this.postgres, teamId, distinctIds)
+    }
+
+    public async suppressDistinctIdsPooled(
+        client: PoolClient | Pool,
+        teamId: Team['id'],
+        distinctIds: string[]
+    ): Promise<void> {
+        if (!distinctIds.length) {
+            return
+        }
+        await client.query(
+            `INSERT INTO posthog_suppresseddistinctid (team_id, distinct_id, created_at)
+            SELECT $1, distinct_id, now() FROM UNNEST($2::text[]) AS distinct_id
+            ON CONFLICT DO NOTHING`,
+            [teamId, distinctIds]
+        )
+    }
+
+    public async fetchSuppressedDistinctIds(teamId: Team['id']): Promise<string[]> {
+        const selectResult = await this.postgresQuery(
+            'SELECT distinct_id FROM posthog_suppresseddistinctid WHERE team_id = $1 ORDER BY id',
+            [teamId],
+            'fetchSuppressedDistinctIds'
+        )
+        return selectResult.rows.map((row) => row.distinct_id)
+    }
+
     // Cohort & CohortPeople
 
     public async createCohort(cohort: Partial<Cohort>): Promise<Cohort> {
@@ -628,7 +1055,7 @@ export class DB {
             [
                 cohort.name,
                 cohort.deleted ?? false,
-                cohort.groups ?? [],
+                JSON.stringify(cohort.groups ?? []),
                 cohort.team_id,
                 cohort.created_at ?? new Date().toISOString(),
                 cohort.created_by_id,
@@ -642,6 +1069,15 @@ export class DB {
         return insertResult.rows[0]
     }
 
+    public async fetchCohort(cohortId: Cohort['id']): Promise<Cohort | undefined> {
+        const selectResult = await this.postgresQuery<Cohort>(
+            `SELECT * FROM posthog_cohort WHERE id = $1 AND deleted = FALSE`,
+            [cohortId],
+            'fetchCohort'
+        )
+        return selectResult.rows[0]
+    }
+
     public async doesPersonBelongToCohort(cohortId: number, person: Person, teamId: Team['id']): Promise<boolean> {
         if (this.kafkaProducer) {
             const chResult = await this.clickhouseQuery(
@@ -699,6 +1135,105 @@ export class DB {
         }
     }
 
+    // DeadLetterQueue
+
+    public async addToDeadLetterQueue(deadLetterQueueEvent: DeadLetterQueueEvent): Promise<void> {
+        if (this.kafkaProducer) {
+            await this.kafkaProducer.queueMessage({
+                topic: KAFKA_EVENTS_DEAD_LETTER_QUEUE,
+                messages: [
+                    {
+                        key: deadLetterQueueEvent.event_uuid,
+                        value: Buffer.from(
+                            JSON.stringify({
+                                ...deadLetterQueueEvent,
+                                error_timestamp: castTimestampOrNow(
+                                    deadLetterQueueEvent.error_timestamp,
+                                    TimestampFormat.ClickHouse
+                                ),
+                            })
+                        ),
+                    },
+                ],
+            })
+        } else {
+            const { id, event_uuid, event, team_id, distinct_id, raw_payload, error_timestamp, error_location, error } =
+                deadLetterQueueEvent
+            await this.postgresQuery(
+                `INSERT INTO posthog_eventdeadletterqueue
+                (id, event_uuid, event, team_id, distinct_id, raw_payload, error_timestamp, error_location, error)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                [id, event_uuid, event, team_id, distinct_id, raw_payload, error_timestamp, error_location, error],
+                'addToDeadLetterQueue'
+            )
+        }
+    }
+
+    /** Fetch dead letter queue events that come after the `since` cursor and failed no later than `until`, oldest first. */
+    public async fetchDeadLetterQueueEvents(
+        since: DeadLetterQueueCursor | null = null,
+        until: DateTime = DateTime.utc(),
+        limit?: number
+    ): Promise<DeadLetterQueueEvent[]> {
+        if (this.kafkaProducer) {
+            let sinceClause = ''
+            if (since) {
+                const sinceTimestamp = `toDateTime64('${castTimestampOrNow(
+                    since.timestamp,
+                    TimestampFormat.ClickHouse
+                )}', 6, 'UTC')`
+                sinceClause = since.id
+                    ? `AND (error_timestamp, id) > (${sinceTimestamp}, toUUID('${escapeClickHouseString(since.id)}'))`
+                    : `AND error_timestamp > ${sinceTimestamp}`
+            }
+            const events = (
+                await this.clickhouseQuery(
+                    `SELECT * FROM events_dead_letter_queue
+                    WHERE error_timestamp <= '${castTimestampOrNow(until, TimestampFormat.ClickHouse)}' ${sinceClause}
+                    ORDER BY error_timestamp, id
+                    ${limit ? `LIMIT ${limit}` : ''}`
+                )
+            ).data as DeadLetterQueueEvent[]
+            return events.map((event) => ({
+                ...event,
+                error_timestamp: clickHouseTimestampToISO(event.error_timestamp),
+            }))
+        } else {
+            const values: any[] = [until.toISO()]
+            let sinceClause = ''
+            if (since) {
+                values.push(since.timestamp.toISO())
+                if (since.id) {
+                    values.push(since.id)
+                    sinceClause = 'AND (error_timestamp, id) > ($2, $3)'
+                } else {
+                    sinceClause = 'AND error_timestamp > $2'
+                }
+            }
+            const result = await this.postgresQuery(
+                `SELECT * FROM posthog_eventdeadletterqueue
+                WHERE error_timestamp <= $1 ${sinceClause}
+                ORDER BY error_timestamp, id
+                ${limit ? `LIMIT ${limit}` : ''}`,
+                values,
+                'fetchDeadLetterQueueEvents'
+            )
+            return result.rows as DeadLetterQueueEvent[]
+        }
+    }
+
+    /** Remove dead letter queue events from Postgres. ClickHouse rows are append-only and stay in place. */
+    public async deleteDeadLetterQueueEvents(ids: DeadLetterQueueEvent['id'][]): Promise<void> {
+        if (this.kafkaProducer || !ids.length) {
+            return
+        }
+        await this.postgresQuery(
+            'DELETE FROM posthog_eventdeadletterqueue WHERE id = ANY($1)',
+            [ids],
+            'deleteDeadLetterQueueEvents'
+        )
+    }
+
     // SessionRecordingEvent
 
     public async fetchSessionRecordingEvents(): Promise<PostgresSessionRecordingEvent[] | SessionRecordingEvent[]> {
@@ -878,6 +1413,72 @@ export class DB {
         ).rows as PropertyDefinitionType[]
     }
 
+    // PropertyTypeCount
+
+    public async addPropertyTypeCounts(
+        teamId: Team['id'],
+        typeCounts: Map<string, Map<PropertyType, number>>
+    ): Promise<void> {
+        const names: string[] = []
+        const propertyTypes: PropertyType[] = []
+        const counts: number[] = []
+        for (const [name, propertyTypeCounts] of typeCounts) {
+            for (const [propertyType, count] of propertyTypeCounts) {
+                names.push(name)
+                propertyTypes.push(propertyType)
+                counts.push(count)
+            }
+        }
+        if (!names.length) {
+            return
+        }
+        await this.postgresQuery(
+            `INSERT INTO posthog_propertytypecount (team_id, name, property_type, count, last_seen_at)
+            SELECT $1, name, property_type, count, now()
+            FROM UNNEST($2::text[], $3::text[], $4::bigint[]) AS type_counts (name, property_type, count)
+            ON CONFLICT (team_id, name, property_type) DO UPDATE SET
+                count = posthog_propertytypecount.count + EXCLUDED.count,
+                last_seen_at = EXCLUDED.last_seen_at`,
+            [teamId, names, propertyTypes, counts],
+            'addPropertyTypeCounts'
+        )
+    }
+
+    public async fetchPropertyTypeCounts(teamId: Team['id']): Promise<PropertyTypeCount[]> {
+        return (
+            await this.postgresQuery(
+                'SELECT team_id, name, property_type, count::int, last_seen_at FROM posthog_propertytypecount WHERE team_id = $1 ORDER BY name, property_type',
+                [teamId],
+                'fetchPropertyTypeCounts'
+            )
+        ).rows as PropertyTypeCount[]
+    }
+
+    /** Properties of the team that have been seen with values of more than one type. */
+    public async fetchPropertyTypeDrift(teamId: Team['id']): Promise<PropertyTypeDrift[]> {
+        return (
+            await this.postgresQuery(
+                `SELECT name, jsonb_object_agg(property_type, count) AS type_counts
+                FROM posthog_propertytypecount WHERE team_id = $1
+                GROUP BY name HAVING COUNT(*) > 1 ORDER BY name`,
+                [teamId],
+                'fetchPropertyTypeDrift'
+            )
+        ).rows as PropertyTypeDrift[]
+    }
+
+    // EventSchema
+
+    public async fetchEventSchemas(teamId: Team['id']): Promise<EventSchema[]> {
+        return (
+            await this.postgresQuery(
+                'SELECT * FROM posthog_eventschema WHERE team_id = $1',
+                [teamId],
+                'fetchEventSchemas'
+            )
+        ).rows as EventSchema[]
+    }
+
     // Action & ActionStep & Action<>Event
 
     public async fetchAllActionsGroupedByTeam(): Promise<Record<Team['id'], Record<Action['id'], Action>>> {
@@ -944,6 +1545,42 @@ export class DB {
         )
     }
 
+    /** Send action matches of an event ingested into ClickHouse, to be stored there as event-action pairs. */
+    public async registerClickHouseActionMatch(event: IEvent, actions: Action[]): Promise<void> {
+        if (!this.kafkaProducer) {
+            throw new Error('Kafka producer has not been provided to this DB instance!')
+        }
+        const createdAt = castTimestampOrNow(null, TimestampFormat.ClickHouse)
+        await this.kafkaProducer.queueMessage({
+            topic: KAFKA_ACTION_EVENTS,
+            messages: actions.map((action) => ({
+                // keyed by the event, so that all of its matches end up in one partition
+                key: event.uuid,
+                value: Buffer.from(
+                    JSON.stringify({
+                        event_uuid: event.uuid,
+                        action_id: action.id,
+                        team_id: action.team_id,
+                        timestamp: event.timestamp,
+                        created_at: createdAt,
+                    })
+                ),
+            })),
+        })
+    }
+
+    // ActionAlert
+
+    public async fetchActionAlerts(): Promise<ActionAlert[]> {
+        return (
+            await this.postgresQuery(
+                'SELECT * FROM posthog_actionalert WHERE deleted = FALSE',
+                undefined,
+                'fetchActionAlerts'
+            )
+        ).rows as ActionAlert[]
+    }
+
     // Organization
 
     public async fetchOrganization(organizationId: string): Promise<RawOrganization | undefined> {
@@ -1002,4 +1639,28 @@ export class DB {
     public async deleteRestHook(hookId: Hook['id']): Promise<void> {
         await this.postgresQuery(`DELETE FROM ee_hook WHERE id = $1`, [hookId], 'deleteRestHook')
     }
+
+    // WebhookDeliveryAttempt
+
+    public async addWebhookDeliveryAttempt(deliveryAttempt: WebhookDeliveryAttempt): Promise<void> {
+        const { id, team_id, action_id, hook_id, url, attempt, status_code, error, succeeded, will_retry, created_at } =
+            deliveryAttempt
+        await this.postgresQuery(
+            `INSERT INTO posthog_webhookdeliveryattempt
+            (id, team_id, action_id, hook_id, url, attempt, status_code, error, succeeded, will_retry, created_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+            [id, team_id, action_id, hook_id, url, attempt, status_code, error, succeeded, will_retry, created_at],
+            'addWebhookDeliveryAttempt'
+        )
+    }
+
+    public async fetchWebhookDeliveryAttempts(): Promise<WebhookDeliveryAttempt[]> {
+        return (
+            await this.postgresQuery(
+                'SELECT * FROM posthog_webhookdeliveryattempt ORDER BY created_at',
+                undefined,
+                'fetchWebhookDeliveryAttempts'
+            )
+        ).rows as WebhookDeliveryAttempt[]
+    }
 }
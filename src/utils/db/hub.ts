@@ -12,10 +12,13 @@ import { types as pgTypes } from 'pg'
 import { ConnectionOptions } from 'tls'
 
 import { defaultConfig } from '../../config/config'
+import { IngestionRateLimiter } from '../../main/ingestion-queues/rate-limiter'
 import { JobQueueManager } from '../../main/job-queues/job-queue-manager'
 import { Hub, PluginsServerConfig } from '../../types'
+import { ActionAlertManager } from '../../worker/ingestion/action-alert-manager'
 import { ActionManager } from '../../worker/ingestion/action-manager'
 import { ActionMatcher } from '../../worker/ingestion/action-matcher'
+import { CohortManager } from '../../worker/ingestion/cohort-manager'
 import { HookCommander } from '../../worker/ingestion/hooks'
 import { OrganizationManager } from '../../worker/ingestion/organization-manager'
 import { EventsProcessor } from '../../worker/ingestion/process-event'
@@ -27,6 +30,7 @@ import { createPostgresPool, createRedis, logOrThrowJobQueueError, UUIDT } from
 import { PluginMetricsManager } from './../plugin-metrics'
 import { DB } from './db'
 import { KafkaProducerWrapper } from './kafka-producer-wrapper'
+import { PersonCache } from './person-cache'
 
 const { version } = require('../../../package.json')
 
@@ -158,11 +162,19 @@ export async function createHub(
         }
     )
 
-    const db = new DB(postgres, redisPool, kafkaProducer, clickhouse, statsd)
+    const personCache = serverConfig.PERSON_CACHE_SIZE
+        ? new PersonCache(serverConfig.PERSON_CACHE_SIZE, serverConfig.PERSON_CACHE_TTL_SECONDS)
+        : undefined
+    const db = new DB(postgres, redisPool, kafkaProducer, clickhouse, statsd, personCache)
+    if (!(await db.hasPersonPropertiesTracking())) {
+        status.warn('⚠️', 'Person property tracking columns are missing, run the migrations of the main app!')
+    }
     const teamManager = new TeamManager(db)
     const organizationManager = new OrganizationManager(db)
     const actionManager = new ActionManager(db)
     await actionManager.prepare()
+    const cohortManager = new CohortManager(db)
+    const hookCannon = new HookCommander(db, teamManager, organizationManager, serverConfig, statsd)
 
     const hub: Omit<Hub, 'eventsProcessor'> = {
         ...serverConfig,
@@ -187,13 +199,24 @@ export async function createHub(
         teamManager,
         organizationManager,
         actionManager,
-        actionMatcher: new ActionMatcher(db, actionManager, statsd),
-        hookCannon: new HookCommander(db, teamManager, organizationManager, statsd),
+        cohortManager,
+        actionMatcher: new ActionMatcher(db, actionManager, cohortManager, statsd),
+        actionAlertManager: new ActionAlertManager(
+            db,
+            actionManager,
+            teamManager,
+            hookCannon,
+            serverConfig.SITE_URL,
+            statsd
+        ),
+        hookCannon,
     }
 
     // :TODO: This is only used on worker threads, not main
     hub.eventsProcessor = new EventsProcessor(hub as Hub)
     hub.jobQueueManager = new JobQueueManager(hub as Hub)
+    hookCannon.jobQueueManager = hub.jobQueueManager
+    hub.ingestionRateLimiter = new IngestionRateLimiter(hub as Hub)
 
     if (serverConfig.CAPTURE_INTERNAL_METRICS) {
         hub.internalMetrics = new InternalMetrics(hub as Hub)
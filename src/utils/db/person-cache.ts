@@ -0,0 +1,73 @@
+import LRU from 'lru-cache'
+
+import { Person, TeamId } from '../../types'
+import { cloneObject } from '../utils'
+
+/** Redis pub/sub channel on which person IDs to drop from all workers' caches are published, as JSON. */
+export const PERSON_CACHE_INVALIDATION_CHANNEL = 'invalidate-person-cache'
+
+/**
+ * Per-worker cache of persons by distinct ID, saving a Postgres query per event for active persons.
+ *
+ * Entries are invalidated by person ID whenever the person is changed through `DB`, here and - over pub/sub - on all
+ * other workers. Changes made elsewhere (e.g. by the app) only show up once the entry expires.
+ *
+ * Persons are copied in and out of the cache, so that changing a person while processing one event can't leak into
+ * the processing of others.
+ */
+export class PersonCache {
+    persons: LRU<string, Person>
+    /** Cache keys by person ID, as a person with many distinct IDs can be cached under each. */
+    keysByPersonId: Map<Person['id'], Set<string>>
+
+    constructor(size: number, ttlSeconds: number) {
+        this.keysByPersonId = new Map()
+        this.persons = new LRU({
+            max: size,
+            maxAge: ttlSeconds * 1000,
+            dispose: (key, person) => {
+                const keys = this.keysByPersonId.get(person.id)
+                keys?.delete(key)
+                if (keys && !keys.size) {
+                    this.keysByPersonId.delete(person.id)
+                }
+            },
+        })
+    }
+
+    get(teamId: TeamId, distinctId: string): Person | undefined {
+        const person = this.persons.get(this.getKey(teamId, distinctId))
+        return person && copyPerson(person)
+    }
+
+    set(teamId: TeamId, distinctId: string, person: Person): void {
+        const key = this.getKey(teamId, distinctId)
+        this.persons.set(key, copyPerson(person))
+        if (!this.keysByPersonId.has(person.id)) {
+            this.keysByPersonId.set(person.id, new Set())
+        }
+        this.keysByPersonId.get(person.id)!.add(key)
+    }
+
+    invalidate(personIds: Person['id'][]): void {
+        for (const personId of personIds) {
+            for (const key of Array.from(this.keysByPersonId.get(personId) ?? [])) {
+                this.persons.del(key)
+            }
+        }
+    }
+
+    private getKey(teamId: TeamId, distinctId: string): string {
+        return `${teamId}::${distinctId}`
+    }
+}
+
+function copyPerson(person: Person): Person {
+    // created_at is an immutable DateTime, so only the JSON fields need a deep copy
+    return {
+        ...person,
+        properties: cloneObject(person.properties),
+        properties_last_updated_at: cloneObject(person.properties_last_updated_at),
+        properties_last_operation: cloneObject(person.properties_last_operation),
+    }
+}
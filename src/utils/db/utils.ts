@@ -3,7 +3,7 @@ import * as Sentry from '@sentry/node'
 import crypto from 'crypto'
 
 import { defaultConfig } from '../../config/config'
-import { BasePerson, Element, Person, RawPerson } from '../../types'
+import { BasePerson, Element, Person, PluginsServerConfig, RawPerson } from '../../types'
 
 export function unparsePersonPartial(person: Partial<Person>): Partial<RawPerson> {
     return { ...(person as BasePerson), ...(person.created_at ? { created_at: person.created_at.toISO() } : {}) }
@@ -59,6 +59,79 @@ export function sanitizeEventName(eventName: any): string {
     return eventName.substr(0, 200)
 }
 
+export type PropertyLimits = Pick<
+    PluginsServerConfig,
+    | 'EVENT_PROPERTIES_MAX_BYTES'
+    | 'EVENT_PROPERTIES_MAX_KEYS'
+    | 'EVENT_PROPERTIES_MAX_DEPTH'
+    | 'EVENT_PROPERTY_MAX_STRING_LENGTH'
+>
+
+/**
+ * Enforce size limits on event properties (a limit of 0 means no limit). Strings that are too long are truncated,
+ * objects and arrays that are too deep or have too many keys lose the excess, and if the whole payload is still
+ * too big, the largest top-level properties are dropped. Returns the limited properties, and the paths of all
+ * values that were dropped or truncated.
+ */
+export function limitProperties(properties: Properties, limits: PropertyLimits): [Properties, string[]] {
+    const {
+        EVENT_PROPERTIES_MAX_BYTES: maxBytes,
+        EVENT_PROPERTIES_MAX_KEYS: maxKeys,
+        EVENT_PROPERTIES_MAX_DEPTH: maxDepth,
+        EVENT_PROPERTY_MAX_STRING_LENGTH: maxStringLength,
+    } = limits
+    const droppedPaths: string[] = []
+
+    function limitValue(value: any, path: string, depth: number): any {
+        if (typeof value === 'string') {
+            if (maxStringLength && value.length > maxStringLength) {
+                droppedPaths.push(path)
+                return value.substr(0, maxStringLength)
+            }
+            return value
+        }
+        if (value === null || typeof value !== 'object') {
+            return value
+        }
+        if (maxDepth && depth > maxDepth) {
+            droppedPaths.push(path)
+            return undefined
+        }
+        let entries: [string, any][] = Array.isArray(value)
+            ? value.map((item, index) => [String(index), item])
+            : Object.entries(value)
+        if (maxKeys && entries.length > maxKeys) {
+            droppedPaths.push(...entries.slice(maxKeys).map(([key]) => (path ? `${path}.${key}` : key)))
+            entries = entries.slice(0, maxKeys)
+        }
+        const limitedEntries = entries
+            .map(([key, item]): [string, any] => [key, limitValue(item, path ? `${path}.${key}` : key, depth + 1)])
+            .filter(([, item]) => item !== undefined)
+        return Array.isArray(value) ? limitedEntries.map(([, item]) => item) : Object.fromEntries(limitedEntries)
+    }
+
+    const limitedProperties: Properties = limitValue(properties, '', 0)
+
+    if (maxBytes) {
+        let bytes = Buffer.byteLength(JSON.stringify(limitedProperties))
+        if (bytes > maxBytes) {
+            const propertySizes = Object.entries(limitedProperties)
+                .map(([key, value]): [string, number] => [key, Buffer.byteLength(JSON.stringify({ [key]: value }))])
+                .sort(([, a], [, b]) => b - a)
+            for (const [key, size] of propertySizes) {
+                if (bytes <= maxBytes) {
+                    break
+                }
+                delete limitedProperties[key]
+                droppedPaths.push(key)
+                bytes -= size
+            }
+        }
+    }
+
+    return [limitedProperties, droppedPaths]
+}
+
 /** Escape UTF-8 characters into `\u1234`. */
 function jsonEscapeUtf8(s: string): string {
     return s.replace(/[^\x20-\x7F]/g, (x) => '\\u' + ('000' + x.codePointAt(0)?.toString(16)).slice(-4))
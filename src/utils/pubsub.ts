@@ -1,10 +1,14 @@
 import { captureException } from '@sentry/node'
+import { createHash } from 'crypto'
 import { Redis } from 'ioredis'
 
 import { PluginsServerConfig } from '../types'
+import { DB } from './db/db'
 import { status } from './status'
 import { createRedis } from './utils'
 
+const PUBSUB_MESSAGE_CLAIM_KEY_PREFIX = '@posthog-plugin-server/pubsub-message-claim/'
+
 export type PubSubTask = ((message: string) => void) | ((message: string) => Promise<void>)
 
 export interface PubSubTaskMap {
@@ -55,3 +59,12 @@ export class PubSub {
         status.info('🛑', `Pub-sub stopped for channels: ${Object.keys(this.taskMap).join(', ')}`)
     }
 }
+
+/**
+ * Claim a pub/sub message for this instance. Every instance receives every message, so a task that must run once per
+ * message is to be run only by the instance that claimed it. The same message is claimable again after `ttlSeconds`.
+ */
+export async function claimPubSubMessage(db: DB, channel: string, message: string, ttlSeconds = 60): Promise<boolean> {
+    const key = `${PUBSUB_MESSAGE_CLAIM_KEY_PREFIX}${channel}/${createHash('sha1').update(message).digest('hex')}`
+    return await db.redisSetNX(key, '1', ttlSeconds)
+}
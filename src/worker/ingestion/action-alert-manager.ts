@@ -0,0 +1,202 @@
+import * as Sentry from '@sentry/node'
+import { StatsD } from 'hot-shots'
+import { DateTime } from 'luxon'
+
+import { Action, ActionAlert, ActionAlertType } from '../../types'
+import { DB } from '../../utils/db/db'
+import { timeoutGuard } from '../../utils/db/utils'
+import { status } from '../../utils/status'
+import { ActionManager } from './action-manager'
+import { HookCommander } from './hooks'
+import { TeamManager } from './team-manager'
+
+const ACTION_ALERTS_KEY_PREFIX = '@posthog-plugin-server/action-alerts/'
+
+/** Longest window alerts can count matches in. Match counts are kept for this long. */
+export const ACTION_ALERT_MAX_WINDOW_MINUTES = 24 * 60
+/**
+ * How long an alert is remembered as firing without being checked. The expiry is refreshed on every check
+ * while the alert keeps firing, so it's posted only once however long it fires, and keys of deleted alerts go away.
+ */
+const ACTION_ALERT_FIRING_TTL_SECONDS = ACTION_ALERT_MAX_WINDOW_MINUTES * 60
+
+/**
+ * Whether the alert should be firing, given how many times its action matched within the alert's window.
+ * Alerts for too few matches only fire once their first full window has passed.
+ */
+export function isActionAlertFiring(alert: ActionAlert, matchCount: number, now: DateTime = DateTime.utc()): boolean {
+    switch (alert.alert_type) {
+        case ActionAlertType.MoreThan:
+            return matchCount > alert.threshold
+        case ActionAlertType.LessThan:
+            return (
+                matchCount < alert.threshold &&
+                DateTime.fromISO(alert.created_at).plus({ minutes: alert.window_minutes }) <= now
+            )
+        default:
+            return false
+    }
+}
+
+/**
+ * Counts action matches in Redis, per minute, for actions with alerts,
+ * and checks the counts against the alerts' thresholds, posting to the team's webhook when an alert starts firing.
+ */
+export class ActionAlertManager {
+    db: DB
+    actionManager: ActionManager
+    teamManager: TeamManager
+    hookCommander: HookCommander
+    siteUrl: string | null
+    statsd: StatsD | undefined
+    alertedActionIdsCache: [Set<Action['id']>, number] | null
+    /** Alerts whose window was found to be too long, and which have been warned about already. */
+    cappedWindowAlertIds: Set<ActionAlert['id']>
+
+    constructor(
+        db: DB,
+        actionManager: ActionManager,
+        teamManager: TeamManager,
+        hookCommander: HookCommander,
+        siteUrl: string | null,
+        statsd?: StatsD
+    ) {
+        this.db = db
+        this.actionManager = actionManager
+        this.teamManager = teamManager
+        this.hookCommander = hookCommander
+        this.siteUrl = siteUrl
+        this.statsd = statsd
+        this.alertedActionIdsCache = null
+        this.cappedWindowAlertIds = new Set()
+    }
+
+    /** Count the event's matches of actions that have alerts. */
+    public async registerMatches(actionMatches: Action[], now: DateTime = DateTime.utc()): Promise<void> {
+        if (!actionMatches.length) {
+            return
+        }
+        const alertedActionIds = await this.fetchAlertedActionIds()
+        for (const action of actionMatches) {
+            if (alertedActionIds.has(action.id)) {
+                const key = this.getMatchCountKey(action.id, getMinute(now))
+                await this.db.redisIncr(key)
+                await this.db.redisExpire(key, (ACTION_ALERT_MAX_WINDOW_MINUTES + 1) * 60)
+            }
+        }
+    }
+
+    /** How many times the action matched in the last `windowMinutes` minutes, including the current one. */
+    public async getMatchCount(
+        actionId: Action['id'],
+        windowMinutes: number,
+        now: DateTime = DateTime.utc()
+    ): Promise<number> {
+        const currentMinute = getMinute(now)
+        const keys = Array.from({ length: Math.min(windowMinutes, ACTION_ALERT_MAX_WINDOW_MINUTES) }, (_, index) =>
+            this.getMatchCountKey(actionId, currentMinute - index)
+        )
+        const counts = await this.db.redisMGet(keys)
+        return counts.reduce((sum, count) => sum + (count ? parseInt(count) : 0), 0)
+    }
+
+    /** Check all alerts, posting those that started firing since the last check. Returns how many were posted. */
+    public async checkAlerts(now: DateTime = DateTime.utc()): Promise<number> {
+        const timeout = timeoutGuard('Still checking action alerts. Timeout warning after 30 sec!')
+        try {
+            const alerts = await this.db.fetchActionAlerts()
+            let postedCount = 0
+            for (const alert of alerts) {
+                try {
+                    if (await this.checkAlert(alert, now)) {
+                        postedCount++
+                    }
+                } catch (error) {
+                    status.warn('⚠️', `Failed to check action alert ID ${alert.id}:`, error)
+                    Sentry.captureException(error, { extra: { alertId: alert.id } })
+                }
+            }
+            return postedCount
+        } finally {
+            clearTimeout(timeout)
+        }
+    }
+
+    /**
+     * Check one alert, posting it if it started firing. Returns whether it was posted.
+     * An alert that couldn't be posted isn't remembered as firing, so posting it is retried on the next check.
+     */
+    private async checkAlert(alert: ActionAlert, now: DateTime): Promise<boolean> {
+        if (alert.window_minutes > ACTION_ALERT_MAX_WINDOW_MINUTES) {
+            if (!this.cappedWindowAlertIds.has(alert.id)) {
+                status.warn(
+                    '⚠️',
+                    `Action alert ID ${alert.id} has a window of ${alert.window_minutes} minutes, checking only the last ${ACTION_ALERT_MAX_WINDOW_MINUTES} instead`
+                )
+                this.cappedWindowAlertIds.add(alert.id)
+            }
+            alert = { ...alert, window_minutes: ACTION_ALERT_MAX_WINDOW_MINUTES }
+        }
+        const matchCount = await this.getMatchCount(alert.action_id, alert.window_minutes, now)
+        const firing = isActionAlertFiring(alert, matchCount, now)
+        const firingKey = this.getFiringKey(alert.id)
+        const wasFiring = !!(await this.db.redisGet(firingKey, false))
+        if (firing && wasFiring) {
+            await this.db.redisExpire(firingKey, ACTION_ALERT_FIRING_TTL_SECONDS)
+            return false
+        }
+        if (!firing) {
+            if (wasFiring) {
+                await this.db.redisSet(firingKey, false, ACTION_ALERT_FIRING_TTL_SECONDS)
+            }
+            return false
+        }
+        const posted = await this.postAlert(alert, matchCount)
+        if (posted) {
+            await this.db.redisSet(firingKey, true, ACTION_ALERT_FIRING_TTL_SECONDS)
+        }
+        return posted
+    }
+
+    private async postAlert(alert: ActionAlert, matchCount: number): Promise<boolean> {
+        const team = await this.teamManager.fetchTeam(alert.team_id)
+        const action = this.actionManager.getTeamActions(alert.team_id)[alert.action_id]
+        if (!team || !action) {
+            status.warn('⚠️', `Can't post alert ID ${alert.id}, as its action or team doesn't exist`)
+            return false
+        }
+        const posted = await this.hookCommander.postActionAlert(team, action, alert, matchCount, this.siteUrl)
+        if (posted) {
+            this.statsd?.increment('action_alerts_fired', { team_id: team.id.toString() })
+        }
+        return posted
+    }
+
+    private async fetchAlertedActionIds(maxAgeMs = 30_000): Promise<Set<Action['id']>> {
+        if (!this.alertedActionIdsCache || Date.now() - this.alertedActionIdsCache[1] > maxAgeMs) {
+            let alerts: ActionAlert[] = []
+            try {
+                alerts = await this.db.fetchActionAlerts()
+            } catch (error) {
+                // counting matches is secondary to ingesting events, so it's skipped until alerts can be fetched
+                status.warn('⚠️', 'Failed to fetch action alerts, not counting action matches for now!', error)
+                Sentry.captureException(error)
+            }
+            this.alertedActionIdsCache = [new Set(alerts.map((alert) => alert.action_id)), Date.now()]
+        }
+        return this.alertedActionIdsCache[0]
+    }
+
+    private getMatchCountKey(actionId: Action['id'], minute: number): string {
+        return `${ACTION_ALERTS_KEY_PREFIX}matches/${actionId}/${minute}`
+    }
+
+    private getFiringKey(alertId: ActionAlert['id']): string {
+        return `${ACTION_ALERTS_KEY_PREFIX}firing/${alertId}`
+    }
+}
+
+/** Minutes since the epoch. */
+function getMinute(time: DateTime): number {
+    return Math.floor(time.toMillis() / 60_000)
+}
@@ -0,0 +1,215 @@
+import escapeStringRegexp from 'escape-string-regexp'
+import equal from 'fast-deep-equal'
+import RE2 from 're2'
+
+import { Action, ActionStep, ActionStepUrlMatching, Cohort, PropertyFilter, PropertyOperator } from '../../types'
+import { status } from '../../utils/status'
+import { stringify } from '../../utils/utils'
+import { parseSelector, SelectorList, UnsupportedSelectorError } from './element-selector'
+
+/** Action with everything needed for matching it against events parsed and compiled upfront. */
+export interface CompiledAction {
+    action: Action
+    steps: CompiledActionStep[]
+}
+
+export interface CompiledActionStep {
+    step: ActionStep
+    /**
+     * Pattern the event URL must match, for steps with a URL matched by regex or containment.
+     * null for an invalid regex, which matches no URL.
+     */
+    urlPattern: RE2 | RegExp | null
+    /** Parsed `selector`, if the step has one. */
+    selector: SelectorList | null
+    /** Why the step's `selector` or that of an element filter can't be evaluated. Such steps never match. */
+    selectorError: string | null
+    filters: CompiledPropertyFilter[]
+}
+
+export interface CompiledPropertyFilter {
+    filter: PropertyFilter
+    /** Patterns of a regex filter's values, in order. null for invalid regexes, which match nothing. */
+    regexes: (RE2 | null)[] | null
+    /** Parsed selector of an element selector filter. */
+    selector: SelectorList | null
+    selectorError: string | null
+}
+
+export function compileAction(action: Action): CompiledAction {
+    return { action, steps: action.steps.map(compileActionStep) }
+}
+
+/** Cohort with its property groups compiled for matching persons against them in real time. */
+export interface CompiledCohort {
+    cohort: Cohort
+    /** Filters of each group. null for groups with behavioral criteria, which only precalculation can evaluate. */
+    groups: (CompiledPropertyFilter[] | null)[]
+}
+
+export function compileCohort(cohort: Cohort): CompiledCohort {
+    const groups = Array.isArray(cohort.groups) ? cohort.groups : []
+    return {
+        cohort,
+        groups: groups.map((group) =>
+            group.action_id || group.event_id || !group.properties?.length
+                ? null
+                : group.properties.map((filter) =>
+                      compilePropertyFilter('type' in filter ? filter : { ...filter, type: 'person' })
+                  )
+        ),
+    }
+}
+
+function compileActionStep(step: ActionStep): CompiledActionStep {
+    let urlPattern: RE2 | RegExp | null = null
+    if (step.url) {
+        switch (step.url_matching) {
+            case ActionStepUrlMatching.Regex:
+                // Using RE2 here because that's what ClickHouse uses for regex matching anyway
+                // It's also safer for user-provided patterns because of a few explicit limitations
+                urlPattern = compileRegex(step.url)
+                break
+            case ActionStepUrlMatching.Exact:
+                break
+            case ActionStepUrlMatching.Contains:
+            default:
+                // Simulating SQL LIKE behavior (_ = any single character, % = any zero or more characters)
+                urlPattern = new RegExp(escapeStringRegexp(step.url).replace(/_/g, '.').replace(/%/g, '.*'))
+        }
+    }
+    const [selector, selectorError] = step.selector ? tryParseSelector(step.selector) : [null, null]
+    const filters = (step.properties ?? []).map(compilePropertyFilter)
+    return {
+        step,
+        urlPattern,
+        selector,
+        selectorError: selectorError ?? filters.find((filter) => filter.selectorError)?.selectorError ?? null,
+        filters,
+    }
+}
+
+function compilePropertyFilter(filter: PropertyFilter): CompiledPropertyFilter {
+    let regexes: (RE2 | null)[] | null = null
+    if (
+        filter.type !== 'cohort' &&
+        (filter.operator === PropertyOperator.Regex || filter.operator === PropertyOperator.NotRegex)
+    ) {
+        const values = Array.isArray(filter.value) ? filter.value : [filter.value]
+        regexes = values.map((value) => compileRegex(stringify(value)))
+    }
+    const [selector, selectorError] =
+        filter.type === 'element' && filter.key === 'selector' ? tryParseSelector(filter.value) : [null, null]
+    return { filter, regexes, selector, selectorError }
+}
+
+function tryParseSelector(selector: string): [SelectorList, null] | [null, string] {
+    try {
+        return [parseSelector(selector), null]
+    } catch (error) {
+        // any error only affects the one step, so one malformed selector can't break loading all actions
+        if (error instanceof UnsupportedSelectorError) {
+            return [null, error.message]
+        }
+        return [null, `Can't parse selector "${selector}": ${error.message}`]
+    }
+}
+
+function compileRegex(pattern: string): RE2 | null {
+    try {
+        return new RE2(pattern)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Actions of one team, compiled and indexed by the event names their steps require.
+ * Only candidates returned for an event can match it.
+ */
+export class ActionIndex {
+    private compiledActions: Map<Action['id'], CompiledAction>
+    private actionsByEvent: Map<string, CompiledAction[]>
+    /** Actions with a step that doesn't require an event name, making them candidates for any event. */
+    private actionsForAnyEvent: CompiledAction[]
+
+    /** Actions unchanged since `previousIndex` reuse their compiled form, so reloading doesn't warn about them again. */
+    constructor(actions: Action[] = [], previousIndex?: ActionIndex) {
+        this.compiledActions = new Map()
+        this.actionsByEvent = new Map()
+        this.actionsForAnyEvent = []
+        for (const action of actions) {
+            this.compiledActions.set(
+                action.id,
+                compileChangedAction(action, previousIndex?.compiledActions.get(action.id))
+            )
+        }
+        this.reindex()
+    }
+
+    public set(action: Action): void {
+        this.compiledActions.set(action.id, compileChangedAction(action, this.compiledActions.get(action.id)))
+        this.reindex()
+    }
+
+    public delete(actionId: Action['id']): void {
+        if (this.compiledActions.delete(actionId)) {
+            this.reindex()
+        }
+    }
+
+    /** All actions, in ID order. */
+    public getAll(): CompiledAction[] {
+        return sortById(Array.from(this.compiledActions.values()))
+    }
+
+    /**
+     * Candidate actions, in ID order.
+     * That's the order actions are cached and so matched in, and their hooks fired in.
+     */
+    public getCandidates(eventName: string): CompiledAction[] {
+        return sortById([...(this.actionsByEvent.get(eventName) ?? []), ...this.actionsForAnyEvent])
+    }
+
+    private reindex(): void {
+        this.actionsByEvent = new Map()
+        this.actionsForAnyEvent = []
+        for (const compiledAction of this.getAll()) {
+            const { steps } = compiledAction.action
+            if (!steps.length) {
+                continue // NO STEPS, SO NEVER A MATCH
+            }
+            if (steps.some((step) => !step.event)) {
+                this.actionsForAnyEvent.push(compiledAction)
+                continue
+            }
+            for (const eventName of new Set(steps.map((step) => step.event!))) {
+                if (!this.actionsByEvent.has(eventName)) {
+                    this.actionsByEvent.set(eventName, [])
+                }
+                this.actionsByEvent.get(eventName)!.push(compiledAction)
+            }
+        }
+    }
+}
+
+/** Compile the action, unless it's unchanged since its previous compilation, warning about steps that never match. */
+function compileChangedAction(action: Action, previous: CompiledAction | undefined): CompiledAction {
+    if (previous && equal(previous.action, action)) {
+        return { ...previous, action }
+    }
+    const compiledAction = compileAction(action)
+    for (const { step, selectorError } of compiledAction.steps) {
+        if (selectorError) {
+            status.warn(
+                '⚠️',
+                `Step ID ${step.id} of action ID ${action.id} (team ID ${action.team_id}) never matches. ${selectorError}`
+            )
+        }
+    }
+    return compiledAction
+}
+
+function sortById(compiledActions: CompiledAction[]): CompiledAction[] {
+    return compiledActions.sort((a, b) => a.action.id - b.action.id)
+}
@@ -1,19 +1,24 @@
 import { Action, Team } from '../../types'
 import { DB } from '../../utils/db/db'
 import { status } from '../../utils/status'
+import { ActionIndex, CompiledAction } from './action-compiler'
 
 export type ActionMap = Record<Action['id'], Action>
 type ActionCache = Record<Team['id'], ActionMap>
+type ActionIndexCache = Record<Team['id'], ActionIndex>
 
 export class ActionManager {
     private ready: boolean
     private db: DB
     private actionCache: ActionCache
+    /** Cached actions compiled for matching, kept in sync with `actionCache`. */
+    private actionIndexCache: ActionIndexCache
 
     constructor(db: DB) {
         this.ready = false
         this.db = db
         this.actionCache = {}
+        this.actionIndexCache = {}
     }
 
     public async prepare(): Promise<void> {
@@ -28,8 +33,34 @@ export class ActionManager {
         return this.actionCache[teamId] || {}
     }
 
+    public getCompiledTeamActions(teamId: Team['id']): CompiledAction[] {
+        if (!this.ready) {
+            throw new Error('ActionManager is not ready! Run actionManager.prepare() before this')
+        }
+        return this.actionIndexCache[teamId]?.getAll() ?? []
+    }
+
+    /** Get the team's compiled actions that can match an event of this name, the others being sure not to. */
+    public getCandidateActions(teamId: Team['id'], eventName: string): CompiledAction[] {
+        if (!this.ready) {
+            throw new Error('ActionManager is not ready! Run actionManager.prepare() before this')
+        }
+        return this.actionIndexCache[teamId]?.getCandidates(eventName) ?? []
+    }
+
+    /** Whether any of the team's actions are matched against session recording events. */
+    public hasSessionRecordingActions(teamId: Team['id']): boolean {
+        return Object.values(this.getTeamActions(teamId)).some((action) => action.match_session_recording_events)
+    }
+
     public async reloadAllActions(): Promise<void> {
         this.actionCache = await this.db.fetchAllActionsGroupedByTeam()
+        const previousActionIndexCache = this.actionIndexCache
+        this.actionIndexCache = {}
+        for (const [teamIdString, actionMap] of Object.entries(this.actionCache)) {
+            const teamId = parseInt(teamIdString)
+            this.actionIndexCache[teamId] = new ActionIndex(Object.values(actionMap), previousActionIndexCache[teamId])
+        }
         status.info('🍿', 'Fetched all actions from DB anew')
     }
 
@@ -40,6 +71,7 @@ export class ActionManager {
         if (!this.actionCache[teamId]) {
             wasCachedAlready = false
             this.actionCache[teamId] = {}
+            this.actionIndexCache[teamId] = new ActionIndex()
         } else if (!this.actionCache[teamId][actionId]) {
             wasCachedAlready = false
         }
@@ -52,12 +84,14 @@ export class ActionManager {
                     : `Fetched new action ID ${actionId} (team ID ${teamId}) from DB`
             )
             this.actionCache[teamId][actionId] = refetchedAction
+            this.actionIndexCache[teamId].set(refetchedAction)
         } else if (wasCachedAlready) {
             status.info(
                 '🍿',
                 `Tried to fetch action ID ${actionId} (team ID ${teamId}) from DB, but it wasn't found in DB, so deleted from cache instead`
             )
             delete this.actionCache[teamId][actionId]
+            this.actionIndexCache[teamId]?.delete(actionId)
         } else {
             status.info(
                 '🍿',
@@ -72,6 +106,7 @@ export class ActionManager {
         if (wasCachedAlready) {
             status.info('🍿', `Deleted action ID ${actionId} (team ID ${teamId}) from cache`)
             delete this.actionCache[teamId][actionId]
+            this.actionIndexCache[teamId]?.delete(actionId)
         } else {
             status.info(
                 '🍿',
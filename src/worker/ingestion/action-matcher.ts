@@ -1,9 +1,7 @@
 import { PluginEvent } from '@posthog/plugin-scaffold'
 import { Properties } from '@posthog/plugin-scaffold/src/types'
-import escapeStringRegexp from 'escape-string-regexp'
-import equal from 'fast-deep-equal'
 import { StatsD } from 'hot-shots'
-import RE2 from 're2'
+import { DateTime, DurationObject } from 'luxon'
 
 import {
     Action,
@@ -15,14 +13,17 @@ import {
     EventPropertyFilter,
     Person,
     PersonPropertyFilter,
-    PropertyFilter,
     PropertyFilterWithOperator,
     PropertyOperator,
 } from '../../types'
 import { DB } from '../../utils/db/db'
 import { extractElements } from '../../utils/db/utils'
 import { stringify, stringToBoolean } from '../../utils/utils'
+import { CompiledAction, CompiledActionStep, CompiledPropertyFilter } from './action-compiler'
 import { ActionManager } from './action-manager'
+import { CohortManager } from './cohort-manager'
+import { matchSelector, parseSelector } from './element-selector'
+import { SESSION_RECORDING_EVENTS } from './session-recording'
 
 /** These operators can only be matched if the provided filter's value has the right type. */
 const propertyOperatorToRequiredValueType: Partial<Record<PropertyOperator, string[]>> = {
@@ -32,6 +33,16 @@ const propertyOperatorToRequiredValueType: Partial<Record<PropertyOperator, stri
     [PropertyOperator.NotRegex]: ['string'],
     [PropertyOperator.GreaterThan]: ['number', 'boolean'],
     [PropertyOperator.LessThan]: ['number', 'boolean'],
+    [PropertyOperator.Between]: ['number', 'boolean'],
+    [PropertyOperator.NotBetween]: ['number', 'boolean'],
+    [PropertyOperator.IsDateBefore]: ['string', 'number'],
+    [PropertyOperator.IsDateAfter]: ['string', 'number'],
+    [PropertyOperator.IsDateWithin]: ['string', 'number'],
+    [PropertyOperator.StartsWith]: ['string'],
+    [PropertyOperator.EndsWith]: ['string'],
+    [PropertyOperator.ContainsAny]: ['array'],
+    [PropertyOperator.ContainsAll]: ['array'],
+    [PropertyOperator.NotContainsAny]: ['array'],
 }
 
 /** These operators do match when the property is not there, as opposed to normal ones. */
@@ -40,6 +51,17 @@ const emptyMatchingOperator: Partial<Record<PropertyOperator, boolean>> = {
     [PropertyOperator.IsNot]: true,
     [PropertyOperator.NotIContains]: true,
     [PropertyOperator.NotRegex]: true,
+    [PropertyOperator.NotBetween]: true,
+    [PropertyOperator.NotContainsAny]: true,
+}
+
+/** Units of relative dates like "-7d", as used in date filters. */
+const relativeDateUnits: Record<string, keyof DurationObject> = {
+    h: 'hours',
+    d: 'days',
+    w: 'weeks',
+    m: 'months',
+    y: 'years',
 }
 
 /** Return whether two values compare to each other according to the specified operator.
@@ -94,21 +116,103 @@ export function castingCompare(
     return false
 }
 
+/** Return whether a value is within the inclusive range, compared like by `castingCompare`. */
+export function castingBetween(
+    value: any, // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+    min: any, // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+    max: any // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+): boolean {
+    // Values that can't be cast fail all comparisons, so they aren't in any range
+    return (
+        (castingCompare(value, min, PropertyOperator.GreaterThan) ||
+            castingCompare(value, min, PropertyOperator.Exact)) &&
+        (castingCompare(value, max, PropertyOperator.LessThan) || castingCompare(value, max, PropertyOperator.Exact))
+    )
+}
+
+/**
+ * Cast a value to a date, similarly to ClickHouse's `parseDateTimeBestEffort`. Dates without a time zone are in UTC.
+ * Numbers are Unix timestamps, in seconds or - if too large for that - milliseconds.
+ */
+export function castToDateTime(value: unknown): DateTime | null {
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        value = Number(value)
+    }
+    let dateTime: DateTime | null = null
+    if (typeof value === 'number' && isFinite(value)) {
+        dateTime = Math.abs(value) < 1e11 ? DateTime.fromSeconds(value) : DateTime.fromMillis(value)
+    } else if (typeof value === 'string') {
+        const options = { zone: 'utc', setZone: true }
+        dateTime =
+            [DateTime.fromISO, DateTime.fromSQL, DateTime.fromRFC2822, DateTime.fromHTTP]
+                .map((parse) => parse(value as string, options))
+                .find((candidate) => candidate.isValid) ?? null
+    }
+    return dateTime?.isValid ? dateTime.toUTC() : null
+}
+
+/** Resolve a date filter's value, absolute or relative to event time like "-7d", to a point in time. */
+function resolveDateValue(value: unknown, eventTime: DateTime): DateTime | null {
+    const relativeDate = typeof value === 'string' ? value.trim().match(/^-?(\d+)([hdwmy])$/) : null
+    if (relativeDate) {
+        return eventTime.minus({ [relativeDateUnits[relativeDate[2]]]: parseInt(relativeDate[1]) })
+    }
+    return castToDateTime(value)
+}
+
+function getEventTime(event: PluginEvent): DateTime {
+    const eventTime = castToDateTime(event.timestamp ?? event.now)
+    return eventTime ?? DateTime.utc()
+}
+
+/** How an event matches against an action. */
+export interface ActionMatchExplanation {
+    actionId: Action['id']
+    actionName: Action['name']
+    match: boolean
+    /** Why the action can't match the event regardless of its steps, if it can't. */
+    skippedReason: string | null
+    steps: ActionStepMatchExplanation[]
+}
+
+export interface ActionStepMatchExplanation {
+    stepId: ActionStep['id']
+    match: boolean
+    /** Conditions the step has, each of which must match. */
+    conditions: ActionConditionMatchExplanation[]
+}
+
+export interface ActionConditionMatchExplanation {
+    condition: 'element' | 'selector' | 'url' | 'event' | 'property'
+    match: boolean
+    /** What the step requires, e.g. the event name or the whole property filter. */
+    expected: unknown
+    /** What the event has, if there's a value to compare with. Lists values of all elements for element filters. */
+    found?: unknown
+    /** Why the condition can't be evaluated, if it can't. */
+    error?: string
+}
+
 export class ActionMatcher {
     private db: DB
     private actionManager: ActionManager
+    private cohortManager: CohortManager
     private statsd: StatsD | undefined
 
-    constructor(db: DB, actionManager: ActionManager, statsd?: StatsD) {
+    constructor(db: DB, actionManager: ActionManager, cohortManager: CohortManager, statsd?: StatsD) {
         this.db = db
         this.actionManager = actionManager
+        this.cohortManager = cohortManager
         this.statsd = statsd
     }
 
     /** Get all actions matched to the event. */
     public async match(event: PluginEvent, person?: Person, elements?: Element[]): Promise<Action[]> {
         const matchingStart = new Date()
-        const teamActions: Action[] = Object.values(this.actionManager.getTeamActions(event.team_id))
+        const isSessionRecordingEvent = SESSION_RECORDING_EVENTS.includes(event.event)
+        const teamActions: CompiledAction[] = this.actionManager
+            .getCandidateActions(event.team_id, event.event)
+            .filter(({ action }) => !isSessionRecordingEvent || action.match_session_recording_events)
         if (!elements) {
             const rawElements: Record<string, any>[] | undefined = event.properties?.['$elements']
             elements = rawElements ? extractElements(rawElements) : []
@@ -119,7 +223,7 @@ export class ActionMatcher {
         const matches: Action[] = []
         for (let i = 0; i < teamActionsMatching.length; i++) {
             if (teamActionsMatching[i]) {
-                matches.push(teamActions[i])
+                matches.push(teamActions[i].action)
             }
         }
         this.statsd?.timing('action_matching_for_event', matchingStart)
@@ -127,6 +231,113 @@ export class ActionMatcher {
         return matches
     }
 
+    /**
+     * Explain how the event matches against each of the team's actions, step by step and condition by condition.
+     * Slower than `match`, as nothing is skipped - meant for finding out why an action does or doesn't fire.
+     */
+    public async explain(event: PluginEvent, person?: Person, elements?: Element[]): Promise<ActionMatchExplanation[]> {
+        const isSessionRecordingEvent = SESSION_RECORDING_EVENTS.includes(event.event)
+        if (!elements) {
+            const rawElements: Record<string, any>[] | undefined = event.properties?.['$elements']
+            elements = rawElements ? extractElements(rawElements) : []
+        }
+        return await Promise.all(
+            this.actionManager.getCompiledTeamActions(event.team_id).map(async ({ action, steps }) => {
+                let skippedReason: string | null = null
+                if (!steps.length) {
+                    skippedReason = 'The action has no steps.'
+                } else if (isSessionRecordingEvent && !action.match_session_recording_events) {
+                    skippedReason = 'The action is not matched against session recording events.'
+                }
+                const stepExplanations = await Promise.all(
+                    steps.map((step) => this.explainStep(event, elements!, person, step))
+                )
+                return {
+                    actionId: action.id,
+                    actionName: action.name,
+                    match: !skippedReason && stepExplanations.some((stepExplanation) => stepExplanation.match),
+                    skippedReason,
+                    steps: stepExplanations,
+                }
+            })
+        )
+    }
+
+    private async explainStep(
+        event: PluginEvent,
+        elements: Element[],
+        person: Person | undefined,
+        compiledStep: CompiledActionStep
+    ): Promise<ActionStepMatchExplanation> {
+        const { step } = compiledStep
+        const conditions: ActionConditionMatchExplanation[] = []
+        if (step.href || step.tag_name || step.text) {
+            conditions.push({
+                condition: 'element',
+                match: this.checkStepElementAttributes(elements, compiledStep),
+                expected: { href: step.href, tag_name: step.tag_name, text: step.text },
+            })
+        }
+        if (step.selector) {
+            conditions.push({
+                condition: 'selector',
+                match: this.checkStepSelector(elements, compiledStep),
+                expected: step.selector,
+                ...(compiledStep.selector ? {} : { error: compiledStep.selectorError ?? undefined }),
+            })
+        }
+        if (step.url) {
+            conditions.push({
+                condition: 'url',
+                match: this.checkStepUrl(event, compiledStep),
+                expected: { url: step.url, url_matching: step.url_matching },
+                found: event.properties?.$current_url,
+            })
+        }
+        if (step.event) {
+            conditions.push({
+                condition: 'event',
+                match: this.checkStepEvent(event, compiledStep),
+                expected: step.event,
+                found: event.event,
+            })
+        }
+        for (const compiledFilter of compiledStep.filters) {
+            const { filter } = compiledFilter
+            const condition: ActionConditionMatchExplanation = {
+                condition: 'property',
+                match: false,
+                expected: filter,
+            }
+            switch (filter.type) {
+                case 'event':
+                    condition.found = event.properties?.[filter.key]
+                    break
+                case 'person':
+                    condition.found = person?.properties?.[filter.key]
+                    break
+                case 'element': {
+                    const { key } = filter
+                    if (key !== 'selector') {
+                        condition.found = elements.map((element) => element[key])
+                    }
+                    break
+                }
+            }
+            if (compiledFilter.selectorError) {
+                condition.error = compiledFilter.selectorError
+            } else {
+                try {
+                    condition.match = await this.checkEventAgainstFilter(event, elements, person, compiledFilter)
+                } catch (error) {
+                    condition.error = error.message
+                }
+            }
+            conditions.push(condition)
+        }
+        return { stepId: step.id, match: conditions.every((condition) => condition.match), conditions }
+    }
+
     /**
      * Base level of action matching.
      *
@@ -137,7 +348,7 @@ export class ActionMatcher {
         event: PluginEvent,
         elements: Element[] | undefined,
         person: Person | undefined,
-        action: Action
+        action: CompiledAction
     ): Promise<boolean> {
         for (const step of action.steps) {
             if (await this.checkStep(event, elements, person, step)) {
@@ -157,7 +368,7 @@ export class ActionMatcher {
         event: PluginEvent,
         elements: Element[] | undefined,
         person: Person | undefined,
-        step: ActionStep
+        step: CompiledActionStep
     ): Promise<boolean> {
         if (!elements) {
             elements = []
@@ -176,33 +387,15 @@ export class ActionMatcher {
      * Return whether the event is a match for the step's "URL" constraint.
      * Step properties: `url_matching`, `url`.
      */
-    private checkStepUrl(event: PluginEvent, step: ActionStep): boolean {
+    private checkStepUrl(event: PluginEvent, { step, urlPattern }: CompiledActionStep): boolean {
         // CHECK CONDITIONS, OTHERWISE SKIPPED
         if (step.url) {
             const eventUrl = event.properties?.$current_url
             if (!eventUrl || typeof eventUrl !== 'string') {
                 return false // URL IS UNKNOWN
             }
-            let doesUrlMatch: boolean
-            switch (step.url_matching) {
-                case ActionStepUrlMatching.Regex:
-                    // Using RE2 here because that's what ClickHouse uses for regex matching anyway
-                    // It's also safer for user-provided patterns because of a few explicit limitations
-                    try {
-                        doesUrlMatch = new RE2(step.url).test(eventUrl)
-                    } catch {
-                        doesUrlMatch = false
-                    }
-                    break
-                case ActionStepUrlMatching.Exact:
-                    doesUrlMatch = step.url === eventUrl
-                    break
-                case ActionStepUrlMatching.Contains:
-                default:
-                    // Simulating SQL LIKE behavior (_ = any single character, % = any zero or more characters)
-                    const adjustedRegExpString = escapeStringRegexp(step.url).replace(/_/g, '.').replace(/%/g, '.*')
-                    doesUrlMatch = new RegExp(adjustedRegExpString).test(eventUrl)
-            }
+            const doesUrlMatch =
+                step.url_matching === ActionStepUrlMatching.Exact ? step.url === eventUrl : !!urlPattern?.test(eventUrl) // PATTERN COMPILED WITH THE ACTION
             if (!doesUrlMatch) {
                 return false // URL IS A MISMATCH
             }
@@ -217,7 +410,17 @@ export class ActionMatcher {
      * the step's "Link href equals", "Text equals" and "HTML selector matches" constraints.
      * Step properties: `tag_name`, `text`, `href`, `selector`.
      */
-    private checkStepElement(elements: Element[], step: ActionStep): boolean {
+    private checkStepElement(elements: Element[], step: CompiledActionStep): boolean {
+        return this.checkStepElementAttributes(elements, step) && this.checkStepSelector(elements, step)
+    }
+
+    /**
+     * Sublevel 3 of action matching.
+     *
+     * Return whether the event is a match for the step's "Link href equals" and "Text equals" constraints.
+     * Step properties: `tag_name`, `text`, `href`.
+     */
+    private checkStepElementAttributes(elements: Element[], { step }: CompiledActionStep): boolean {
         // CHECK CONDITIONS, OTHERWISE SKIPPED
         if (step.href || step.tag_name || step.text) {
             if (
@@ -238,7 +441,18 @@ export class ActionMatcher {
                 return false
             }
         }
-        if (step.selector && !this.checkElementsAgainstSelector(elements, step.selector)) {
+        return true
+    }
+
+    /**
+     * Sublevel 3 of action matching.
+     *
+     * Return whether the event is a match for the step's "HTML selector matches" constraint.
+     * Step property: `selector`.
+     */
+    private checkStepSelector(elements: Element[], { step, selector }: CompiledActionStep): boolean {
+        // CHECK CONDITIONS, OTHERWISE SKIPPED
+        if (step.selector && (!selector || !matchSelector(elements, selector))) {
             return false // SELECTOR IS A MISMATCH
         }
         return true
@@ -250,7 +464,7 @@ export class ActionMatcher {
      * Return whether the event is a match for the step's event name constraint.
      * Step property: `event`.
      */
-    private checkStepEvent(event: PluginEvent, step: ActionStep): boolean {
+    private checkStepEvent(event: PluginEvent, { step }: CompiledActionStep): boolean {
         // CHECK CONDITIONS, OTHERWISE SKIPPED
         if (step.event && event.event !== step.event) {
             return false // EVENT NAME IS A MISMATCH
@@ -268,12 +482,12 @@ export class ActionMatcher {
         event: PluginEvent,
         elements: Element[],
         person: Person | undefined,
-        step: ActionStep
+        { filters }: CompiledActionStep
     ): Promise<boolean> {
         // CHECK CONDITIONS, OTHERWISE SKIPPED, OTHERWISE SKIPPED
-        if (step.properties && step.properties.length) {
+        if (filters.length) {
             // EVERY FILTER MUST BE A MATCH
-            for (const filter of step.properties) {
+            for (const filter of filters) {
                 if (!(await this.checkEventAgainstFilter(event, elements, person, filter))) {
                     return false
                 }
@@ -289,17 +503,18 @@ export class ActionMatcher {
         event: PluginEvent,
         elements: Element[],
         person: Person | undefined,
-        filter: PropertyFilter
+        compiledFilter: CompiledPropertyFilter
     ): Promise<boolean> {
+        const { filter } = compiledFilter
         switch (filter.type) {
             case 'event':
-                return this.checkEventAgainstEventFilter(event, filter)
+                return this.checkEventAgainstEventFilter(event, filter, compiledFilter)
             case 'person':
-                return this.checkEventAgainstPersonFilter(person, filter)
+                return this.checkEventAgainstPersonFilter(event, person, filter, compiledFilter)
             case 'element':
-                return this.checkEventAgainstElementFilter(elements, filter)
+                return this.checkEventAgainstElementFilter(event, elements, filter, compiledFilter)
             case 'cohort':
-                return await this.checkEventAgainstCohortFilter(person, filter)
+                return await this.checkEventAgainstCohortFilter(event, person, filter)
             default:
                 return false
         }
@@ -308,28 +523,42 @@ export class ActionMatcher {
     /**
      * Sublevel 4 of action matching.
      */
-    private checkEventAgainstEventFilter(event: PluginEvent, filter: EventPropertyFilter): boolean {
-        return this.checkPropertiesAgainstFilter(event.properties, filter)
+    private checkEventAgainstEventFilter(
+        event: PluginEvent,
+        filter: EventPropertyFilter,
+        compiledFilter: CompiledPropertyFilter
+    ): boolean {
+        return this.checkPropertiesAgainstFilter(event, event.properties, filter, compiledFilter)
     }
 
     /**
      * Sublevel 4 of action matching.
      */
-    private checkEventAgainstPersonFilter(person: Person | undefined, filter: PersonPropertyFilter): boolean {
+    private checkEventAgainstPersonFilter(
+        event: PluginEvent,
+        person: Person | undefined,
+        filter: PersonPropertyFilter,
+        compiledFilter: CompiledPropertyFilter
+    ): boolean {
         if (!person?.properties) {
             return !!(filter.operator && emptyMatchingOperator[filter.operator]) // NO PERSON OR PROPERTIES TO MATCH AGAINST FILTER
         }
-        return this.checkPropertiesAgainstFilter(person.properties, filter)
+        return this.checkPropertiesAgainstFilter(event, person.properties, filter, compiledFilter)
     }
 
     /**
      * Sublevel 4 of action matching.
      */
-    private checkEventAgainstElementFilter(elements: Element[], filter: ElementPropertyFilter): boolean {
+    private checkEventAgainstElementFilter(
+        event: PluginEvent,
+        elements: Element[],
+        filter: ElementPropertyFilter,
+        compiledFilter: CompiledPropertyFilter
+    ): boolean {
         if (filter.key === 'selector') {
-            return this.checkElementsAgainstSelector(elements, filter.value)
+            return !!compiledFilter.selector && matchSelector(elements, compiledFilter.selector)
         } else {
-            return elements.some((element) => this.checkPropertiesAgainstFilter(element, filter))
+            return elements.some((element) => this.checkPropertiesAgainstFilter(event, element, filter, compiledFilter))
         }
     }
 
@@ -337,6 +566,7 @@ export class ActionMatcher {
      * Sublevel 4 of action matching.
      */
     private async checkEventAgainstCohortFilter(
+        event: PluginEvent,
         person: Person | undefined,
         filter: CohortPropertyFilter
     ): Promise<boolean> {
@@ -350,15 +580,86 @@ export class ActionMatcher {
         if (isNaN(cohortId)) {
             throw new Error(`Can't match against invalid cohort ID value "${filter.value}!"`)
         }
-        return await this.db.doesPersonBelongToCohort(Number(filter.value), person, person.team_id)
+        return await this.checkPersonAgainstCohort(event, person, cohortId, new Set())
+    }
+
+    /**
+     * Sublevel 5 of action matching.
+     *
+     * The person belongs to the cohort if they match any of its groups. Property groups are evaluated in real time,
+     * so that fresh persons and property changes count right away. Groups with behavioral criteria, and static
+     * cohorts, are left to precalculated cohort membership.
+     */
+    private async checkPersonAgainstCohort(
+        event: PluginEvent,
+        person: Person,
+        cohortId: number,
+        checkedCohortIds: ReadonlySet<number>
+    ): Promise<boolean> {
+        if (checkedCohortIds.has(cohortId)) {
+            return false // COHORT REFERENCES ITSELF
+        }
+        checkedCohortIds = new Set(checkedCohortIds).add(cohortId)
+        const compiledCohort = await this.cohortManager.fetchCohort(person.team_id, cohortId)
+        let needsPrecalculation = !compiledCohort || compiledCohort.cohort.is_static || !compiledCohort.groups.length
+        for (const filters of compiledCohort?.groups ?? []) {
+            const groupMatch = filters
+                ? await this.checkPersonAgainstCohortGroup(event, person, filters, checkedCohortIds)
+                : null
+            if (groupMatch) {
+                return true
+            }
+            if (groupMatch === null) {
+                needsPrecalculation = true
+            }
+        }
+        return needsPrecalculation && (await this.db.doesPersonBelongToCohort(cohortId, person, person.team_id))
+    }
+
+    /**
+     * Sublevel 6 of action matching.
+     *
+     * Return whether the person has all properties of a cohort group, or null if that can't be told in real time.
+     */
+    private async checkPersonAgainstCohortGroup(
+        event: PluginEvent,
+        person: Person,
+        filters: CompiledPropertyFilter[],
+        checkedCohortIds: ReadonlySet<number>
+    ): Promise<boolean | null> {
+        let groupMatch: boolean | null = true
+        for (const compiledFilter of filters) {
+            const { filter } = compiledFilter
+            switch (filter.type) {
+                case 'person':
+                    if (!this.checkEventAgainstPersonFilter(event, person, filter, compiledFilter)) {
+                        return false
+                    }
+                    break
+                case 'cohort':
+                    const cohortId = Number(filter.value)
+                    if (
+                        isNaN(cohortId) ||
+                        !(await this.checkPersonAgainstCohort(event, person, cohortId, checkedCohortIds))
+                    ) {
+                        return false
+                    }
+                    break
+                default:
+                    groupMatch = null // NOT A PERSON CRITERION
+            }
+        }
+        return groupMatch
     }
 
     /**
      * Sublevel 5 of action matching.
      */
     private checkPropertiesAgainstFilter(
+        event: PluginEvent,
         properties: Properties | null | undefined,
-        filter: PropertyFilterWithOperator
+        filter: PropertyFilterWithOperator,
+        { regexes }: CompiledPropertyFilter
     ): boolean {
         const foundValue = properties?.[filter.key]
         if (foundValue === undefined) {
@@ -369,11 +670,28 @@ export class ActionMatcher {
         let foundValueLowerCase: string // only calculated if needed for a case-insensitive operator
 
         const requiredValueType = filter.operator && propertyOperatorToRequiredValueType[filter.operator]
-        if (requiredValueType && !requiredValueType.includes(typeof foundValue)) {
+        const foundValueType = Array.isArray(foundValue) ? 'array' : typeof foundValue
+        if (requiredValueType && !requiredValueType.includes(foundValueType)) {
             return !!(filter.operator && emptyMatchingOperator[filter.operator]) // INCOMPATIBLE WITH OPERATOR SUPPORT
         }
 
-        let test: (okValue: any) => boolean
+        // THESE OPERATORS TAKE ALL POSSIBLE VALUES TOGETHER
+        switch (filter.operator) {
+            case PropertyOperator.Between:
+                return okValues.length === 2 && castingBetween(foundValue, okValues[0], okValues[1])
+            case PropertyOperator.NotBetween:
+                return okValues.length === 2 && !castingBetween(foundValue, okValues[0], okValues[1])
+            case PropertyOperator.ContainsAll:
+                return okValues.every((okValue) =>
+                    foundValue.some((element: any) => castingCompare(element, okValue, PropertyOperator.Exact))
+                )
+            case PropertyOperator.NotContainsAny:
+                return !okValues.some((okValue) =>
+                    foundValue.some((element: any) => castingCompare(element, okValue, PropertyOperator.Exact))
+                )
+        }
+
+        let test: (okValue: any, index: number) => boolean
         switch (filter.operator) {
             case PropertyOperator.IsNot:
                 test = (okValue) => castingCompare(foundValue, okValue, PropertyOperator.IsNot)
@@ -387,10 +705,10 @@ export class ActionMatcher {
                 test = (okValue) => !foundValueLowerCase.includes(stringify(okValue).toLowerCase())
                 break
             case PropertyOperator.Regex:
-                test = (okValue) => new RE2(stringify(okValue)).test(foundValue)
+                test = (_, index) => !!regexes?.[index]?.test(foundValue)
                 break
             case PropertyOperator.NotRegex:
-                test = (okValue) => !new RE2(stringify(okValue)).test(foundValue)
+                test = (_, index) => !regexes?.[index]?.test(foundValue)
                 break
             case PropertyOperator.GreaterThan:
                 test = (okValue) => castingCompare(foundValue, okValue, PropertyOperator.GreaterThan)
@@ -404,6 +722,40 @@ export class ActionMatcher {
             case PropertyOperator.IsNotSet:
                 test = () => foundValue === undefined
                 break
+            case PropertyOperator.StartsWith:
+                test = (okValue) => foundValue.startsWith(stringify(okValue))
+                break
+            case PropertyOperator.EndsWith:
+                test = (okValue) => foundValue.endsWith(stringify(okValue))
+                break
+            case PropertyOperator.ContainsAny:
+                test = (okValue) =>
+                    foundValue.some((element: any) => castingCompare(element, okValue, PropertyOperator.Exact))
+                break
+            case PropertyOperator.IsDateBefore:
+            case PropertyOperator.IsDateAfter:
+            case PropertyOperator.IsDateWithin:
+                const foundDate = castToDateTime(foundValue)
+                if (!foundDate) {
+                    return false // NOT A DATE
+                }
+                const eventTime = getEventTime(event)
+                test = (okValue) => {
+                    const date = resolveDateValue(okValue, eventTime)
+                    if (!date) {
+                        return false
+                    }
+                    switch (filter.operator) {
+                        case PropertyOperator.IsDateBefore:
+                            return foundDate < date
+                        case PropertyOperator.IsDateAfter:
+                            return foundDate > date
+                        default:
+                            // Within the last so much time before the event
+                            return foundDate >= date && foundDate <= eventTime
+                    }
+                }
+                break
             case PropertyOperator.Exact:
             default:
                 test = (okValue) => castingCompare(foundValue, okValue, PropertyOperator.Exact)
@@ -413,184 +765,10 @@ export class ActionMatcher {
     }
 
     /**
-     * Sublevel 3 or 5 of action matching.
+     * Return whether any of the elements matches the selector.
+     * Throws UnsupportedSelectorError for selectors that can't be evaluated.
      */
     public checkElementsAgainstSelector(elements: Element[], selector: string, escapeSlashes = true): boolean {
-        const parts: SelectorPart[] = []
-        // Sometimes people manually add *, just remove them as they don't do anything
-        selector = selector
-            .replace(/> \* > /g, '')
-            .replace(/> \*/g, '')
-            .trim()
-        const tags = selector.split(' ')
-        // Detecting selector parts
-        for (let partIndex = 0; partIndex < tags.length; partIndex++) {
-            const tag = tags[partIndex]
-            if (tag === '>' || tag === '') {
-                continue
-            }
-            const directDescendant = partIndex > 0 && tags[partIndex - 1] === '>'
-            const part = new SelectorPart(tag, directDescendant, escapeSlashes)
-            part.uniqueOrder = parts.filter((p) => equal(p.requirements, part.requirements)).length
-            parts.push(part)
-        }
-        // Matching elements against selector parts
-        // Initial base element is the imaginary parent of the outermost known element
-        let baseElementIndex = elements.length
-        let wasPartMatched = true
-        let partIndex = 0
-        while (partIndex < parts.length) {
-            if (baseElementIndex <= 0) {
-                // At least one part wasn't matched yet, but at the same time there are no more matchable elements left!
-                return false
-            }
-            const part = parts[partIndex]
-            wasPartMatched = false
-            for (let depthDiff = 1; baseElementIndex - depthDiff >= 0; depthDiff++) {
-                // Subtracting depthDiff as elements are reversed, meaning outer elements have higher indexes
-                const currentElementIndex = baseElementIndex - depthDiff
-                if (
-                    this.checkElementAgainstSelectorPartRequirements(elements[currentElementIndex], part.requirements)
-                ) {
-                    baseElementIndex = currentElementIndex
-                    wasPartMatched = true
-                    break
-                } else if (part.directDescendant) {
-                    break
-                }
-            }
-            if (wasPartMatched) {
-                partIndex++
-            } else {
-                if (part.directDescendant) {
-                    // For a direct descendant we need to check the parent parent again
-                    partIndex--
-                } else {
-                    // Otherwise we just move the base down
-                    baseElementIndex--
-                }
-            }
-        }
-        return wasPartMatched
-    }
-
-    private checkElementAgainstSelectorPartRequirements(element: Element, requirements: Partial<Element>): boolean {
-        if (requirements.text && element.text !== requirements.text) {
-            return false
-        }
-        if (requirements.tag_name && element.tag_name !== requirements.tag_name) {
-            return false
-        }
-        if (requirements.href && element.href !== requirements.href) {
-            return false
-        }
-        if (requirements.attr_id && element.attr_id !== requirements.attr_id) {
-            return false
-        }
-        if (requirements.attr_class) {
-            if (
-                !element.attr_class?.length ||
-                !requirements.attr_class.every((className) => element.attr_class!.includes(className))
-            ) {
-                return false
-            }
-        }
-        if (requirements.nth_child && element.nth_child !== requirements.nth_child) {
-            return false
-        }
-        if (requirements.nth_of_type && element.nth_of_type !== requirements.nth_of_type) {
-            return false
-        }
-        if (requirements.attributes) {
-            const { attributes } = element
-            if (!attributes) {
-                return false
-            }
-            for (const [key, value] of Object.entries(requirements.attributes)) {
-                if (attributes[key] !== value) {
-                    return false
-                }
-            }
-        }
-        return true
-    }
-}
-
-class SelectorPart {
-    directDescendant: boolean
-    uniqueOrder: number
-    requirements: Partial<Element>
-
-    constructor(tag: string, directDescendant: boolean, escapeSlashes: boolean) {
-        const ATTRIBUTE_SELECTOR_REGEX = /\[(.*)=[\'|\"](.*)[\'|\"]\]/
-        const COLON_SELECTOR_REGEX = /:([A-Za-z-]+)\((\d+)\)/
-        const FINAL_TAG_REGEX = /^([A-Za-z0-9]+)/
-
-        this.directDescendant = directDescendant
-        this.uniqueOrder = 0
-        this.requirements = {}
-
-        let attributeSelector = tag.match(ATTRIBUTE_SELECTOR_REGEX)
-        while (attributeSelector) {
-            tag =
-                tag.slice(0, attributeSelector.index) +
-                tag.slice(attributeSelector.index! + attributeSelector[0].length)
-            const attribute = attributeSelector[1].toLowerCase()
-            switch (attribute) {
-                case 'id':
-                    this.requirements.attr_id = attributeSelector[2].toLowerCase()
-                    break
-                case 'href':
-                    this.requirements.href = attributeSelector[2]
-                    break
-                default:
-                    if (!this.requirements.attributes) {
-                        this.requirements.attributes = {}
-                    }
-                    this.requirements.attributes[attribute] = attributeSelector[2]
-                    break
-            }
-            attributeSelector = tag.match(ATTRIBUTE_SELECTOR_REGEX)
-        }
-        let colonSelector = tag.match(COLON_SELECTOR_REGEX)
-        while (colonSelector) {
-            tag = tag.slice(0, colonSelector.index) + tag.slice(colonSelector.index! + colonSelector[0].length)
-            const parsedArgument = parseInt(colonSelector[2])
-            if (!parsedArgument) {
-                continue
-            }
-            switch (colonSelector[1]) {
-                case 'nth-child':
-                    this.requirements.nth_child = parsedArgument
-                    break
-                case 'nth-of-type':
-                    this.requirements.nth_of_type = parsedArgument
-                    break
-                default:
-                    continue // unsupported selector
-            }
-            colonSelector = tag.match(COLON_SELECTOR_REGEX)
-        }
-        if (tag.includes('.')) {
-            const classParts = tag.split('.')
-            // Strip all slashes that are not followed by another slash
-            this.requirements.attr_class = classParts.slice(1)
-            if (escapeSlashes) {
-                this.requirements.attr_class = this.requirements.attr_class.map(this.unescapeClassName.bind(this))
-            } // TODO: determine if we need escapeSlashes in this port
-            tag = classParts[0]
-        }
-        const finalTag = tag.match(FINAL_TAG_REGEX)
-        if (finalTag) {
-            this.requirements.tag_name = finalTag[1]
-        }
-    }
-
-    /** Separate all double slashes "\\" (replace them with "\") and remove all single slashes between them. */
-    private unescapeClassName(className: string): string {
-        return className
-            .split('\\\\')
-            .map((p) => p.replace(/\\/g, ''))
-            .join('\\')
+        return matchSelector(elements, parseSelector(selector, escapeSlashes))
     }
 }
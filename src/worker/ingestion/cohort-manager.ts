@@ -0,0 +1,42 @@
+import { Cohort, Team } from '../../types'
+import { DB } from '../../utils/db/db'
+import { timeoutGuard } from '../../utils/db/utils'
+import { compileCohort, CompiledCohort } from './action-compiler'
+
+type CohortCache<T> = Map<Cohort['id'], [T, number]>
+
+export class CohortManager {
+    db: DB
+    cohortCache: CohortCache<CompiledCohort | null>
+
+    constructor(db: DB) {
+        this.db = db
+        this.cohortCache = new Map()
+    }
+
+    /** Fetch the team's cohort, compiled for matching. Returns null if it doesn't exist or is deleted. */
+    public async fetchCohort(teamId: Team['id'], cohortId: Cohort['id']): Promise<CompiledCohort | null> {
+        let compiledCohort = this.getByAge(this.cohortCache, cohortId)
+        if (compiledCohort === undefined) {
+            const timeout = timeoutGuard(`Still running "fetchCohort". Timeout warning after 30 sec!`)
+            try {
+                const cohort = await this.db.fetchCohort(cohortId)
+                compiledCohort = cohort ? compileCohort(cohort) : null
+                this.cohortCache.set(cohortId, [compiledCohort, Date.now()])
+            } finally {
+                clearTimeout(timeout)
+            }
+        }
+        return compiledCohort?.cohort.team_id === teamId ? compiledCohort : null
+    }
+
+    private getByAge<K, V>(cache: Map<K, [V, number]>, key: K, maxAgeMs = 30_000): V | undefined {
+        if (cache.has(key)) {
+            const [value, age] = cache.get(key)!
+            if (Date.now() - age <= maxAgeMs) {
+                return value
+            }
+        }
+        return undefined
+    }
+}
@@ -0,0 +1,44 @@
+import { PluginEvent } from '@posthog/plugin-scaffold'
+import * as Sentry from '@sentry/node'
+import { DateTime } from 'luxon'
+
+import { DeadLetterQueueEvent, Hub, IngestionStage } from '../../types'
+import { status } from '../../utils/status'
+import { UUIDT } from '../../utils/utils'
+
+export function generateDeadLetterQueueEvent(
+    event: PluginEvent,
+    error: Error,
+    stage: IngestionStage
+): DeadLetterQueueEvent {
+    return {
+        id: new UUIDT().toString(),
+        event_uuid: event.uuid!,
+        event: event.event,
+        team_id: event.team_id,
+        distinct_id: String(event.distinct_id),
+        raw_payload: JSON.stringify(event),
+        error_timestamp: DateTime.utc().toISO(),
+        error_location: stage,
+        error: `${error.name}: ${error.message}`,
+    }
+}
+
+/** Store an event that failed ingestion, so that it can be replayed once the cause is fixed. Never throws. */
+export async function addToDeadLetterQueue(
+    hub: Hub,
+    event: PluginEvent,
+    error: Error,
+    stage: IngestionStage
+): Promise<void> {
+    try {
+        await hub.db.addToDeadLetterQueue(generateDeadLetterQueueEvent(event, error, stage))
+        hub.statsd?.increment('events_added_to_dead_letter_queue', {
+            team_id: event.team_id.toString(),
+            stage,
+        })
+    } catch (dlqError) {
+        status.error('⚠️', 'Could not add event to the dead letter queue:', dlqError)
+        Sentry.captureException(dlqError, { extra: { event: JSON.stringify(event), stage } })
+    }
+}
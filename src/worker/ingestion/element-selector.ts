@@ -0,0 +1,479 @@
+import { Element } from '../../types'
+
+export class UnsupportedSelectorError extends Error {
+    name = 'UnsupportedSelectorError'
+
+    constructor(selector: string, reason: string) {
+        super(`Can't evaluate selector "${selector}": ${reason}`)
+    }
+}
+
+/** How a selector part relates to the part before it: as a descendant, child, next sibling or later sibling. */
+export type SelectorCombinator = ' ' | '>' | '+' | '~'
+
+export type AttributeSelectorOperator = '=' | '^=' | '$=' | '*=' | '~=' | '|='
+
+export interface AttributeSelector {
+    name: string
+    /** null if the attribute only needs to be present. */
+    operator: AttributeSelectorOperator | null
+    value: string
+    caseInsensitive: boolean
+}
+
+/** `:nth-child(an+b)` and the like, matching positions `a * k + b` for any k >= 0. Positions start at 1. */
+export interface NthSelector {
+    a: number
+    b: number
+}
+
+/** Compound selector, matched by one element. */
+export interface SelectorPart {
+    /** null for the first part. */
+    combinator: SelectorCombinator | null
+    /** null for any tag. */
+    tagName: string | null
+    ids: string[]
+    classNames: string[]
+    attributes: AttributeSelector[]
+    nthChild: NthSelector[]
+    nthOfType: NthSelector[]
+    /** Parts of `:not()`, none of which the element may match. */
+    negations: SelectorPart[]
+}
+
+/** Alternatives of a selector list, each a chain of parts from the outermost to the innermost one. */
+export type SelectorList = SelectorPart[][]
+
+const ATTRIBUTE_SELECTOR_OPERATORS: AttributeSelectorOperator[] = ['=', '^=', '$=', '*=', '~=', '|=']
+
+/**
+ * Parse a CSS selector, as generated by the toolbar, for matching against element chains.
+ * Throws UnsupportedSelectorError for selectors that can't be evaluated with what chains say about elements.
+ */
+export function parseSelector(selector: string, escapeSlashes = true): SelectorList {
+    return new SelectorParser(selector, escapeSlashes).parse()
+}
+
+/** Whether any element of the chain matches the selector. Elements are ordered from the innermost one. */
+export function matchSelector(elements: Element[], selector: SelectorList): boolean {
+    return selector.some((parts) =>
+        elements.some((_, elementIndex) => matchPartAt(elements, parts, parts.length - 1, elementIndex))
+    )
+}
+
+function matchPartAt(elements: Element[], parts: SelectorPart[], partIndex: number, elementIndex: number): boolean {
+    if (elementIndex >= elements.length || !matchesPart(elements[elementIndex], parts[partIndex])) {
+        return false
+    }
+    return (
+        partIndex === 0 || matchRelatedPart(elements, parts, partIndex - 1, elementIndex, parts[partIndex].combinator!)
+    )
+}
+
+/** Whether parts up to `partIndex` match, the last of them related to the element at `elementIndex` as specified. */
+function matchRelatedPart(
+    elements: Element[],
+    parts: SelectorPart[],
+    partIndex: number,
+    elementIndex: number,
+    combinator: SelectorCombinator
+): boolean {
+    switch (combinator) {
+        case '>':
+            return matchPartAt(elements, parts, partIndex, elementIndex + 1)
+        case ' ':
+            // Ancestors have higher indexes, as elements are ordered from the innermost one
+            for (let ancestorIndex = elementIndex + 1; ancestorIndex < elements.length; ancestorIndex++) {
+                if (matchPartAt(elements, parts, partIndex, ancestorIndex)) {
+                    return true
+                }
+            }
+            return false
+        case '+':
+        case '~':
+            // Siblings aren't in the chain, but sibling selectors the parser accepts can be told from the position of
+            // the element. The sibling shares its ancestors, so the parts before it are matched from the element on
+            const sibling = parts[partIndex]
+            if (!hasMatchingPrecedingSibling(elements[elementIndex], sibling)) {
+                return false
+            }
+            return (
+                partIndex === 0 || matchRelatedPart(elements, parts, partIndex - 1, elementIndex, sibling.combinator!)
+            )
+    }
+}
+
+function hasMatchingPrecedingSibling(element: Element, sibling: SelectorPart): boolean {
+    if (sibling.tagName === null) {
+        return (element.nth_child ?? 0) > 1
+    }
+    return element.tag_name === sibling.tagName && (element.nth_of_type ?? 0) > 1
+}
+
+function matchesPart(element: Element, part: SelectorPart): boolean {
+    if (part.tagName && element.tag_name !== part.tagName) {
+        return false
+    }
+    if (!part.ids.every((id) => element.attr_id === id)) {
+        return false
+    }
+    if (!part.classNames.every((className) => element.attr_class?.includes(className))) {
+        return false
+    }
+    if (!part.attributes.every((attribute) => matchesAttribute(element, attribute))) {
+        return false
+    }
+    if (!part.nthChild.every((nth) => element.nth_child !== undefined && matchesNth(nth, element.nth_child))) {
+        return false
+    }
+    if (!part.nthOfType.every((nth) => element.nth_of_type !== undefined && matchesNth(nth, element.nth_of_type))) {
+        return false
+    }
+    return !part.negations.some((negation) => matchesPart(element, negation))
+}
+
+function matchesAttribute(element: Element, { name, operator, value, caseInsensitive }: AttributeSelector): boolean {
+    const foundValue = getElementAttribute(element, name)
+    if (foundValue === undefined || foundValue === null) {
+        return false
+    }
+    if (operator === null) {
+        return true
+    }
+    let actual = String(foundValue)
+    let expected = value
+    if (caseInsensitive) {
+        actual = actual.toLowerCase()
+        expected = expected.toLowerCase()
+    }
+    switch (operator) {
+        case '=':
+            return actual === expected
+        case '^=':
+            return !!expected && actual.startsWith(expected)
+        case '$=':
+            return !!expected && actual.endsWith(expected)
+        case '*=':
+            return !!expected && actual.includes(expected)
+        case '~=':
+            return actual.split(/\s+/).includes(expected)
+        case '|=':
+            return actual === expected || actual.startsWith(`${expected}-`)
+    }
+}
+
+function getElementAttribute(element: Element, name: string): unknown {
+    switch (name) {
+        case 'id':
+            return element.attr_id
+        case 'href':
+            return element.href
+        case 'class':
+            return element.attr_class?.join(' ')
+        default:
+            // Attributes of captured elements are stored with the prefix
+            return element.attributes?.[`attr__${name}`] ?? element.attributes?.[name]
+    }
+}
+
+function matchesNth({ a, b }: NthSelector, position: number): boolean {
+    if (a === 0) {
+        return position === b
+    }
+    const k = (position - b) / a
+    return Number.isInteger(k) && k >= 0
+}
+
+class SelectorParser {
+    private selector: string
+    private escapeSlashes: boolean
+    private position: number
+
+    constructor(selector: string, escapeSlashes: boolean) {
+        this.selector = selector
+        this.escapeSlashes = escapeSlashes
+        this.position = 0
+    }
+
+    public parse(): SelectorList {
+        const selectorList = this.parseSelectorList()
+        if (this.position < this.selector.length) {
+            this.fail(`unexpected "${this.peek()}" at position ${this.position}`)
+        }
+        return selectorList
+    }
+
+    private parseSelectorList(): SelectorList {
+        const selectorList: SelectorList = []
+        do {
+            this.skipWhitespace()
+            selectorList.push(this.parseComplexSelector())
+            this.skipWhitespace()
+        } while (this.consume(','))
+        return selectorList
+    }
+
+    private parseComplexSelector(): SelectorPart[] {
+        const parts: SelectorPart[] = []
+        let combinator: SelectorCombinator | null = null
+        while (true) {
+            const part = this.parseCompoundSelector(combinator)
+            if (combinator === '+' || combinator === '~') {
+                this.checkSiblingSelector(parts[parts.length - 1], part, combinator)
+            }
+            parts.push(part)
+
+            const hadWhitespace = this.skipWhitespace()
+            const next = this.peek()
+            if (next === '>' || next === '+' || next === '~') {
+                this.position++
+                this.skipWhitespace()
+                combinator = next
+            } else if (next === undefined || next === ',' || next === ')') {
+                return parts
+            } else if (hadWhitespace) {
+                combinator = ' '
+            } else {
+                this.fail(`unexpected "${next}" at position ${this.position}`)
+            }
+        }
+    }
+
+    private parseCompoundSelector(combinator: SelectorCombinator | null): SelectorPart {
+        const start = this.position
+        const part: SelectorPart = {
+            combinator,
+            tagName: null,
+            ids: [],
+            classNames: [],
+            attributes: [],
+            nthChild: [],
+            nthOfType: [],
+            negations: [],
+        }
+        if (this.consume('*')) {
+            // Any tag
+        } else if (this.isIdentifierStart()) {
+            part.tagName = this.readIdentifier()
+        }
+        while (true) {
+            if (this.consume('#')) {
+                part.ids.push(this.readIdentifier())
+            } else if (this.consume('.')) {
+                part.classNames.push(this.readIdentifier())
+            } else if (this.consume('[')) {
+                part.attributes.push(this.parseAttributeSelector())
+            } else if (this.consume(':')) {
+                this.parsePseudoClass(part)
+            } else {
+                break
+            }
+        }
+        if (this.position === start) {
+            this.fail(
+                this.position < this.selector.length
+                    ? `unexpected "${this.peek()}" at position ${this.position}`
+                    : 'selector ends unexpectedly'
+            )
+        }
+        return part
+    }
+
+    private parseAttributeSelector(): AttributeSelector {
+        this.skipWhitespace()
+        const name = this.readIdentifier().toLowerCase()
+        this.skipWhitespace()
+        if (this.consume(']')) {
+            return { name, operator: null, value: '', caseInsensitive: false }
+        }
+        const operator = ATTRIBUTE_SELECTOR_OPERATORS.find((candidate) => this.consume(candidate))
+        if (!operator) {
+            this.fail(`unsupported attribute selector operator at position ${this.position}`)
+        }
+        this.skipWhitespace()
+        const quote = this.peek()
+        const value = quote === '"' || quote === "'" ? this.readString(quote) : this.readIdentifier()
+        this.skipWhitespace()
+        const flag = this.peek()?.toLowerCase()
+        const caseInsensitive = flag === 'i'
+        if (flag === 'i' || flag === 's') {
+            this.position++
+            this.skipWhitespace()
+        }
+        this.expect(']')
+        return { name, operator, value, caseInsensitive }
+    }
+
+    private parsePseudoClass(part: SelectorPart): void {
+        if (this.peek() === ':') {
+            this.fail('pseudo-elements are never part of the element chain')
+        }
+        const name = this.readIdentifier().toLowerCase()
+        switch (name) {
+            case 'first-child':
+                part.nthChild.push({ a: 0, b: 1 })
+                break
+            case 'first-of-type':
+                part.nthOfType.push({ a: 0, b: 1 })
+                break
+            case 'nth-child':
+                part.nthChild.push(this.parseNthArgument())
+                break
+            case 'nth-of-type':
+                part.nthOfType.push(this.parseNthArgument())
+                break
+            case 'not':
+                this.expect('(')
+                for (const parts of this.parseSelectorList()) {
+                    if (parts.length > 1) {
+                        this.fail(':not() with combinators is not supported')
+                    }
+                    part.negations.push(parts[0])
+                }
+                this.expect(')')
+                break
+            default:
+                this.fail(`:${name} is not supported, as the element chain doesn't tell`)
+        }
+    }
+
+    private parseNthArgument(): NthSelector {
+        this.expect('(')
+        const end = this.selector.indexOf(')', this.position)
+        if (end === -1) {
+            this.fail('selector ends unexpectedly')
+        }
+        const argument = this.selector.slice(this.position, end).trim().toLowerCase()
+        this.position = end + 1
+        if (argument === 'odd') {
+            return { a: 2, b: 1 }
+        }
+        if (argument === 'even') {
+            return { a: 2, b: 0 }
+        }
+        if (/^[+-]?\d+$/.test(argument)) {
+            return { a: 0, b: parseInt(argument) }
+        }
+        const formula = argument.match(/^([+-]?\d*)n\s*(?:([+-])\s*(\d+))?$/)
+        if (!formula) {
+            this.fail(`unsupported argument "${argument}"`)
+        }
+        const a = formula[1] === '' || formula[1] === '+' ? 1 : formula[1] === '-' ? -1 : parseInt(formula[1])
+        const b = formula[3] ? parseInt(formula[3]) * (formula[2] === '-' ? -1 : 1) : 0
+        return { a, b }
+    }
+
+    /** Only sibling selectors that can be told from the position of the element in its parent are supported. */
+    private checkSiblingSelector(sibling: SelectorPart, part: SelectorPart, combinator: '+' | '~'): void {
+        const hasOnlyTagName =
+            !sibling.ids.length &&
+            !sibling.classNames.length &&
+            !sibling.attributes.length &&
+            !sibling.nthChild.length &&
+            !sibling.nthOfType.length &&
+            !sibling.negations.length
+        if (sibling.combinator === '+' || sibling.combinator === '~') {
+            this.fail('chained sibling combinators are not supported')
+        }
+        if (!hasOnlyTagName || (sibling.tagName !== null && (combinator !== '~' || sibling.tagName !== part.tagName))) {
+            this.fail(`siblings matched by "${combinator}" aren't in the element chain`)
+        }
+    }
+
+    private readIdentifier(): string {
+        let identifier = ''
+        while (this.position < this.selector.length) {
+            const char = this.selector[this.position]
+            if (char === '\\') {
+                identifier += this.readEscape()
+            } else if (/[A-Za-z0-9_-]/.test(char) || char.charCodeAt(0) >= 0x80) {
+                identifier += char
+                this.position++
+            } else {
+                break
+            }
+        }
+        if (!identifier) {
+            this.fail(`expected a name at position ${this.position}`)
+        }
+        return identifier
+    }
+
+    private readString(quote: string): string {
+        let value = ''
+        this.position++
+        while (this.position < this.selector.length) {
+            const char = this.selector[this.position]
+            if (char === quote) {
+                this.position++
+                return value
+            }
+            if (char === '\\') {
+                value += this.readEscape()
+            } else {
+                value += char
+                this.position++
+            }
+        }
+        this.fail('selector ends unexpectedly')
+    }
+
+    private readEscape(): string {
+        const escaped = this.selector.slice(this.position, this.position + 2)
+        if (!this.escapeSlashes) {
+            this.position += escaped.length
+            return escaped
+        }
+        const hex = this.selector.slice(this.position + 1).match(/^([0-9A-Fa-f]{1,6}) ?/)
+        if (hex) {
+            const codePoint = parseInt(hex[1], 16)
+            if (codePoint > 0x10ffff) {
+                this.fail(`invalid escape at position ${this.position}`)
+            }
+            this.position += 1 + hex[0].length
+            return String.fromCodePoint(codePoint)
+        }
+        this.position += escaped.length
+        return escaped.slice(1)
+    }
+
+    private isIdentifierStart(): boolean {
+        const char = this.peek()
+        return char !== undefined && (/[A-Za-z_\\-]/.test(char) || char.charCodeAt(0) >= 0x80)
+    }
+
+    private skipWhitespace(): boolean {
+        const start = this.position
+        while (/\s/.test(this.peek() ?? '')) {
+            this.position++
+        }
+        return this.position > start
+    }
+
+    private peek(): string | undefined {
+        return this.selector[this.position]
+    }
+
+    private consume(token: string): boolean {
+        if (this.selector.startsWith(token, this.position)) {
+            this.position += token.length
+            return true
+        }
+        return false
+    }
+
+    private expect(token: string): void {
+        if (!this.consume(token)) {
+            this.fail(
+                this.position < this.selector.length
+                    ? `expected "${token}" at position ${this.position}`
+                    : 'selector ends unexpectedly'
+            )
+        }
+    }
+
+    private fail(reason: string): never {
+        throw new UnsupportedSelectorError(this.selector, reason)
+    }
+}
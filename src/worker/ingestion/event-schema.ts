@@ -0,0 +1,101 @@
+import { Properties } from '@posthog/plugin-scaffold'
+import { DateTime } from 'luxon'
+
+import { EventSchema, PropertyType, SchemaEnforcement } from '../../types'
+
+export function matchesPropertyType(value: unknown, type: PropertyType): boolean {
+    switch (type) {
+        case PropertyType.String:
+            return typeof value === 'string'
+        case PropertyType.Numeric:
+            return typeof value === 'number' && isFinite(value)
+        case PropertyType.Boolean:
+            return typeof value === 'boolean'
+        case PropertyType.DateTime:
+            return typeof value === 'string' && DateTime.fromISO(value).isValid
+        case PropertyType.Object:
+            return typeof value === 'object' && value !== null
+        default:
+            return false
+    }
+}
+
+/** Type of a property value as seen in ingestion. Only full ISO dates count as datetimes, not just any number-ish string. */
+export function detectPropertyType(value: unknown): PropertyType | null {
+    if (typeof value === 'string') {
+        return /^\d{4}-\d{2}-\d{2}/.test(value) && DateTime.fromISO(value).isValid
+            ? PropertyType.DateTime
+            : PropertyType.String
+    }
+    if (typeof value === 'number') {
+        return PropertyType.Numeric
+    }
+    if (typeof value === 'boolean') {
+        return PropertyType.Boolean
+    }
+    if (typeof value === 'object' && value !== null) {
+        return PropertyType.Object
+    }
+    return null
+}
+
+/** Convert a value to the given property type, if that can be done without guessing. Returns undefined otherwise. */
+export function coercePropertyType(value: unknown, type: PropertyType): unknown {
+    switch (type) {
+        case PropertyType.String:
+            return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined
+        case PropertyType.Numeric:
+            if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+                return Number(value)
+            }
+            return undefined
+        case PropertyType.Boolean:
+            if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+                return value.toLowerCase() === 'true'
+            }
+            if (value === 0 || value === 1) {
+                return value === 1
+            }
+            return undefined
+        case PropertyType.DateTime:
+            if (typeof value === 'number' && isFinite(value)) {
+                // Unix timestamps in milliseconds are above 10^11 for all dates since 1973
+                return DateTime.fromMillis(value > 1e11 ? value : value * 1000, { zone: 'UTC' }).toISO()
+            }
+            if (typeof value === 'string') {
+                for (const parse of [DateTime.fromRFC2822, DateTime.fromHTTP, DateTime.fromSQL]) {
+                    const dateTime = parse(value, { zone: 'UTC' })
+                    if (dateTime.isValid) {
+                        return dateTime.toISO()
+                    }
+                }
+            }
+            return undefined
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Check properties against the event's schema. Properties that aren't set (or are null) are not checked.
+ * With `SchemaEnforcement.Coerce`, offending properties are converted in place where possible.
+ * Returns the names of properties that (still) don't match the schema.
+ */
+export function applyEventSchema(schema: EventSchema, properties: Properties): string[] {
+    const violations: string[] = []
+    for (const [key, type] of Object.entries(schema.properties)) {
+        const value = properties[key]
+        if (value === undefined || value === null || matchesPropertyType(value, type)) {
+            continue
+        }
+        if (schema.enforcement === SchemaEnforcement.Coerce) {
+            const coercedValue = coercePropertyType(value, type)
+            if (coercedValue !== undefined) {
+                properties[key] = coercedValue
+                continue
+            }
+        }
+        violations.push(key)
+    }
+    return violations
+}
@@ -1,12 +1,25 @@
 import { PluginEvent } from '@posthog/plugin-scaffold'
 import { captureException } from '@sentry/node'
 import { StatsD } from 'hot-shots'
+import { DateTime } from 'luxon'
 import fetch from 'node-fetch'
 import { format } from 'util'
 
-import { Action, Hook, Person } from '../../types'
+import { JobQueueManager } from '../../main/job-queues/job-queue-manager'
+import {
+    Action,
+    ActionAlert,
+    ActionAlertType,
+    EnqueuedJob,
+    Hook,
+    Person,
+    PluginsServerConfig,
+    Team,
+    WebhookDelivery,
+} from '../../types'
 import { DB } from '../../utils/db/db'
-import { stringify } from '../../utils/utils'
+import { status } from '../../utils/status'
+import { stringify, UUIDT } from '../../utils/utils'
 import { OrganizationManager } from './organization-manager'
 import { TeamManager } from './team-manager'
 
@@ -142,16 +155,71 @@ export function getFormattedMessage(
     return [messageText, messageMarkdown]
 }
 
+export function getAlertMessage(
+    action: Action,
+    alert: ActionAlert,
+    matchCount: number,
+    siteUrl: string | null,
+    webhookType: WebhookType
+): [string, string] {
+    const [actionName, actionMarkdown] = siteUrl
+        ? getActionDetails(action, siteUrl, webhookType)
+        : [stringify(action.name), stringify(action.name)]
+    const window = `the last ${alert.window_minutes} minute${alert.window_minutes === 1 ? '' : 's'}`
+    let description: string
+    if (alert.alert_type === ActionAlertType.MoreThan) {
+        description = `was triggered ${matchCount} times in ${window}, more than the alert threshold of ${alert.threshold}`
+    } else if (matchCount === 0) {
+        description = `has not been triggered in ${window}`
+    } else {
+        description = `was triggered only ${matchCount} times in ${window}, less than the alert threshold of ${alert.threshold}`
+    }
+    return [`🚨 ${actionName} ${description}.`, `🚨 ${actionMarkdown} ${description}.`]
+}
+
+/** Job type of webhook deliveries being retried. */
+export const WEBHOOK_DELIVERY_JOB_TYPE = '$$webhookDelivery'
+
+export function isWebhookDeliveryJob(job: EnqueuedJob): boolean {
+    // webhook deliveries don't belong to any plugin config, which is how they can't be confused with plugin jobs
+    return job.type === WEBHOOK_DELIVERY_JOB_TYPE && !job.pluginConfigId
+}
+
+/** How long to wait before retrying a delivery that failed on the given attempt, doubling with each attempt. */
+export function getWebhookRetryDelayMs(attempt: number, retryDelaySeconds: number): number {
+    return retryDelaySeconds * 1000 * 2 ** (attempt - 1)
+}
+
+/** Whether a failed delivery is worth retrying: after a network error or timeout, or a temporary HTTP error. */
+export function isWebhookFailureRetryable(statusCode: number | null): boolean {
+    return statusCode === null || statusCode >= 500 || statusCode === 408 || statusCode === 429
+}
+
+export type WebhookDeliveryConfig = Pick<
+    PluginsServerConfig,
+    'WEBHOOK_TIMEOUT_SECONDS' | 'WEBHOOK_MAX_ATTEMPTS' | 'WEBHOOK_RETRY_DELAY_SECONDS'
+>
+
 export class HookCommander {
     db: DB
     teamManager: TeamManager
     organizationManager: OrganizationManager
+    deliveryConfig: WebhookDeliveryConfig
     statsd: StatsD | undefined
+    /** Queue for retrying failed deliveries. Without one, deliveries are only attempted once. */
+    jobQueueManager: JobQueueManager | undefined
 
-    constructor(db: DB, teamManager: TeamManager, organizationManager: OrganizationManager, statsd?: StatsD) {
+    constructor(
+        db: DB,
+        teamManager: TeamManager,
+        organizationManager: OrganizationManager,
+        deliveryConfig: WebhookDeliveryConfig,
+        statsd?: StatsD
+    ) {
         this.db = db
         this.teamManager = teamManager
         this.organizationManager = organizationManager
+        this.deliveryConfig = deliveryConfig
         this.statsd = statsd
     }
 
@@ -203,6 +271,59 @@ export class HookCommander {
     ): Promise<void> {
         const webhookType = determineWebhookType(webhookUrl)
         const [messageText, messageMarkdown] = getFormattedMessage(action, event, person, siteUrl, webhookType)
+        await this.postWebhookMessage(webhookUrl, webhookType, messageText, messageMarkdown, action.team_id, action.id)
+        this.statsd?.increment('webhook_firings')
+    }
+
+    /** Alert the team's webhook, if it has one, that the action matched too often or too rarely. */
+    public async postActionAlert(
+        team: Team,
+        action: Action,
+        alert: ActionAlert,
+        matchCount: number,
+        siteUrl: string | null
+    ): Promise<boolean> {
+        const webhookUrl = team.slack_incoming_webhook
+        if (!webhookUrl) {
+            return false
+        }
+        const webhookType = determineWebhookType(webhookUrl)
+        const [messageText, messageMarkdown] = getAlertMessage(action, alert, matchCount, siteUrl, webhookType)
+        // not retried through the job queue, as alerts are checked again and so reposted if need be every minute
+        const delivered = await this.postWebhookMessage(
+            webhookUrl,
+            webhookType,
+            messageText,
+            messageMarkdown,
+            action.team_id,
+            action.id,
+            false
+        )
+        if (delivered) {
+            this.statsd?.increment('action_alert_firings')
+        }
+        return delivered
+    }
+
+    /** Notify the team's webhook, if it has one, of a problem with the team's data that's not about any action. */
+    public async postTeamNotice(team: Team, messageText: string, messageMarkdown = messageText): Promise<boolean> {
+        const webhookUrl = team.slack_incoming_webhook
+        if (!webhookUrl) {
+            return false
+        }
+        const webhookType = determineWebhookType(webhookUrl)
+        return await this.postWebhookMessage(webhookUrl, webhookType, messageText, messageMarkdown, team.id, null)
+    }
+
+    private async postWebhookMessage(
+        webhookUrl: string,
+        webhookType: WebhookType,
+        messageText: string,
+        messageMarkdown: string,
+        teamId: Team['id'],
+        actionId: Action['id'] | null,
+        retryOnFailure = true
+    ): Promise<boolean> {
         let message: Record<string, any>
         if (webhookType === WebhookType.Slack) {
             message = {
@@ -214,12 +335,17 @@ export class HookCommander {
                 text: messageMarkdown,
             }
         }
-        await fetch(webhookUrl, {
-            method: 'POST',
-            body: JSON.stringify(message, undefined, 4),
-            headers: { 'Content-Type': 'application/json' },
-        })
-        this.statsd?.increment('webhook_firings')
+        return await this.deliverWebhook(
+            {
+                teamId,
+                url: webhookUrl,
+                body: JSON.stringify(message, undefined, 4),
+                actionId,
+                hookId: null,
+                attempt: 1,
+            },
+            retryOnFailure
+        )
     }
 
     private async postRestHook(hook: Hook, event: PluginEvent, person: Person | undefined): Promise<void> {
@@ -227,15 +353,103 @@ export class HookCommander {
             hook: { id: hook.id, event: hook.event, target: hook.target },
             data: { ...event, person },
         }
-        const request = await fetch(hook.target, {
-            method: 'POST',
+        await this.deliverWebhook({
+            teamId: hook.team_id,
+            url: hook.target,
             body: JSON.stringify(payload, undefined, 4),
-            headers: { 'Content-Type': 'application/json' },
+            actionId: hook.resource_id,
+            hookId: hook.id,
+            attempt: 1,
         })
-        if (request.status === 410) {
-            // Delete hook on our side if it's gone on Zapier's
-            await this.db.deleteRestHook(hook.id)
-        }
         this.statsd?.increment('rest_hook_firings')
     }
+
+    /**
+     * Make one attempt at delivering the request, enqueueing a retry with backoff if it failed temporarily.
+     * Failed and eventually successful attempts are recorded for users to see. Returns whether this attempt succeeded.
+     */
+    public async deliverWebhook(delivery: WebhookDelivery, retryOnFailure = true): Promise<boolean> {
+        let statusCode: number | null = null
+        let error: string | null = null
+        try {
+            const response = await fetch(delivery.url, {
+                method: 'POST',
+                body: delivery.body,
+                headers: { 'Content-Type': 'application/json' },
+                timeout: this.deliveryConfig.WEBHOOK_TIMEOUT_SECONDS * 1000,
+            })
+            statusCode = response.status ?? null
+            if (delivery.hookId && response.status === 410) {
+                // Delete hook on our side if it's gone on Zapier's
+                await this.db.deleteRestHook(delivery.hookId)
+                return true
+            }
+            if (response.status >= 400) {
+                error = `Request failed with status ${response.status}`
+            }
+        } catch (fetchError) {
+            error = `${fetchError.name}: ${fetchError.message}`
+        }
+
+        const succeeded = error === null
+        let willRetry = false
+        if (
+            !succeeded &&
+            retryOnFailure &&
+            this.jobQueueManager &&
+            delivery.attempt < this.deliveryConfig.WEBHOOK_MAX_ATTEMPTS &&
+            isWebhookFailureRetryable(statusCode)
+        ) {
+            try {
+                await this.jobQueueManager.enqueue({
+                    type: WEBHOOK_DELIVERY_JOB_TYPE,
+                    payload: { delivery: { ...delivery, attempt: delivery.attempt + 1 } },
+                    timestamp:
+                        Date.now() +
+                        getWebhookRetryDelayMs(delivery.attempt, this.deliveryConfig.WEBHOOK_RETRY_DELAY_SECONDS),
+                    pluginConfigId: 0,
+                    pluginConfigTeam: delivery.teamId,
+                })
+                willRetry = true
+            } catch (enqueueError) {
+                captureException(enqueueError)
+            }
+        }
+
+        if (!succeeded || delivery.attempt > 1) {
+            await this.recordDeliveryAttempt(delivery, statusCode, error, willRetry)
+        }
+        this.statsd?.increment(succeeded ? 'webhook_deliveries_succeeded' : 'webhook_deliveries_failed', {
+            attempt: delivery.attempt.toString(),
+            will_retry: willRetry.toString(),
+        })
+        return succeeded
+    }
+
+    /** Store the outcome of a delivery attempt. Never throws. */
+    private async recordDeliveryAttempt(
+        delivery: WebhookDelivery,
+        statusCode: number | null,
+        error: string | null,
+        willRetry: boolean
+    ): Promise<void> {
+        try {
+            await this.db.addWebhookDeliveryAttempt({
+                id: new UUIDT().toString(),
+                team_id: delivery.teamId,
+                action_id: delivery.actionId,
+                hook_id: delivery.hookId,
+                url: delivery.url,
+                attempt: delivery.attempt,
+                status_code: statusCode,
+                error,
+                succeeded: error === null,
+                will_retry: willRetry,
+                created_at: DateTime.utc().toISO(),
+            })
+        } catch (recordError) {
+            status.error('⚠️', 'Could not record webhook delivery attempt:', recordError)
+            captureException(recordError, { extra: { delivery: JSON.stringify(delivery) } })
+        }
+    }
 }
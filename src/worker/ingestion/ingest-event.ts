@@ -2,14 +2,18 @@ import { PluginEvent } from '@posthog/plugin-scaffold'
 import * as Sentry from '@sentry/node'
 import { DateTime } from 'luxon'
 
-import { Hub, IngestEventResponse } from '../../types'
+import { Hub, IngestEventResponse, IngestionStage } from '../../types'
 import { timeoutGuard } from '../../utils/db/utils'
 import { status } from '../../utils/status'
+import { addToDeadLetterQueue } from './dead-letter-queue'
+import { EventProcessingResult } from './process-event'
+import { SESSION_RECORDING_EVENTS, SESSION_RECORDING_STARTED_EVENT } from './session-recording'
 
 export async function ingestEvent(hub: Hub, event: PluginEvent): Promise<IngestEventResponse> {
     const timeout = timeoutGuard('Still ingesting event inside worker. Timeout warning after 30 sec!', {
         event: JSON.stringify(event),
     })
+    let stage = IngestionStage.ProcessEvent
     try {
         const { ip, site_url, team_id, now, sent_at, uuid } = event
         const distinctId = String(event.distinct_id)
@@ -23,22 +27,90 @@ export async function ingestEvent(hub: Hub, event: PluginEvent): Promise<IngestE
             sent_at ? DateTime.fromISO(sent_at) : null,
             uuid! // it will throw if it's undefined
         )
-        if (hub.PLUGIN_SERVER_ACTION_MATCHING >= 1 && result) {
-            const person = await hub.db.fetchPerson(team_id, distinctId)
-            const actionMatches = await hub.actionMatcher.match(event, person, result.elements)
-            await hub.hookCannon.findAndFireHooks(event, person, site_url, actionMatches)
-            if (hub.PLUGIN_SERVER_ACTION_MATCHING >= 2 && actionMatches.length && result.eventId !== undefined) {
-                await hub.db.registerActionMatch(result.eventId, actionMatches)
-            }
-        }
+        stage = IngestionStage.ActionMatching
+        await matchActions(hub, event, result)
         // We don't want to return the inserted DB entry that `processEvent` returns.
         // This response is passed to piscina and would be discarded anyway.
         return { success: true }
     } catch (e) {
-        status.info('🔔', e)
-        Sentry.captureException(e)
-        return { error: e.message }
+        return await handleIngestionError(hub, event, e, stage)
+    } finally {
+        clearTimeout(timeout)
+    }
+}
+
+/** Ingest multiple events at once, with the bulk `EventsProcessor.processEventBatch`. */
+export async function ingestEventBatch(hub: Hub, events: PluginEvent[]): Promise<IngestEventResponse[]> {
+    const timeout = timeoutGuard('Still ingesting event batch inside worker. Timeout warning after 30 sec!', {
+        eventCount: events.length,
+    })
+    try {
+        let results: PromiseSettledResult<EventProcessingResult | void>[]
+        try {
+            results = await hub.eventsProcessor.processEventBatch(events)
+        } catch (e) {
+            return await Promise.all(
+                events.map((event) => handleIngestionError(hub, event, e, IngestionStage.ProcessEvent))
+            )
+        }
+        return await Promise.all(
+            events.map(async (event, index) => {
+                const result = results[index]
+                if (result.status === 'rejected') {
+                    return await handleIngestionError(hub, event, result.reason, IngestionStage.ProcessEvent)
+                }
+                try {
+                    await matchActions(hub, event, result.value)
+                    return { success: true }
+                } catch (e) {
+                    return await handleIngestionError(hub, event, e, IngestionStage.ActionMatching)
+                }
+            })
+        )
     } finally {
         clearTimeout(timeout)
     }
 }
+
+async function matchActions(hub: Hub, event: PluginEvent, result: EventProcessingResult | void): Promise<void> {
+    if (hub.PLUGIN_SERVER_ACTION_MATCHING < 1 || !result) {
+        return
+    }
+    if (
+        SESSION_RECORDING_EVENTS.includes(event.event) &&
+        !hub.actionManager.hasSessionRecordingActions(event.team_id)
+    ) {
+        return
+    }
+    const person = await hub.db.fetchPerson(event.team_id, String(event.distinct_id))
+    const events = [event]
+    if (result.sessionRecordingStarted) {
+        const { $snapshot_data, ...properties } = event.properties ?? {}
+        events.push({ ...event, event: SESSION_RECORDING_STARTED_EVENT, properties })
+    }
+    for (const matchedEvent of events) {
+        const actionMatches = await hub.actionMatcher.match(matchedEvent, person, result.elements)
+        await hub.hookCannon.findAndFireHooks(matchedEvent, person, event.site_url, actionMatches)
+        await hub.actionAlertManager.registerMatches(actionMatches)
+        if (hub.PLUGIN_SERVER_ACTION_MATCHING >= 2 && actionMatches.length) {
+            if (result.eventId !== undefined) {
+                await hub.db.registerActionMatch(result.eventId, actionMatches)
+            } else if (hub.kafkaProducer && 'elementsChain' in result.event) {
+                // only events get stored with their matches, not session recording events
+                await hub.db.registerClickHouseActionMatch(result.event, actionMatches)
+            }
+        }
+    }
+}
+
+async function handleIngestionError(
+    hub: Hub,
+    event: PluginEvent,
+    e: Error,
+    stage: IngestionStage
+): Promise<IngestEventResponse> {
+    status.info('🔔', e)
+    Sentry.captureException(e)
+    await addToDeadLetterQueue(hub, event, e, stage)
+    return { error: e.message }
+}
@@ -17,7 +17,7 @@ export class PersonManager {
     }
 
     async isNewPerson(db: DB, teamId: number, distinctId: string): Promise<boolean> {
-        const key = `${teamId}::${distinctId}`
+        const key = this.getKey(teamId, distinctId)
         if (this.personSeen.get(key)) {
             return false
         }
@@ -30,4 +30,13 @@ export class PersonManager {
         )
         return parseInt(pdiSelectResult.rows[0].pdicount) === 0
     }
+
+    /** Remember a person as existing without querying, e.g. when it has just been fetched anyway. */
+    markPersonSeen(teamId: number, distinctId: string): void {
+        this.personSeen.set(this.getKey(teamId, distinctId), true)
+    }
+
+    private getKey(teamId: number, distinctId: string): string {
+        return `${teamId}::${distinctId}`
+    }
 }
@@ -0,0 +1,209 @@
+import { Properties } from '@posthog/plugin-scaffold'
+import equal from 'fast-deep-equal'
+import { DateTime } from 'luxon'
+
+import { Person, PropertiesLastOperation, PropertiesLastUpdatedAt, PropertyUpdateOperation } from '../../types'
+
+type PersonPropertiesState = Pick<Person, 'properties' | 'properties_last_updated_at' | 'properties_last_operation'>
+
+export interface PersonPropertiesMerge {
+    properties: Properties
+    properties_last_updated_at: PropertiesLastUpdatedAt
+    properties_last_operation: PropertiesLastOperation
+    /** Properties whose value was taken from the person being merged. */
+    takenFromOtherPerson: string[]
+    /** Values that lost out to a different value of the same property. */
+    discarded: Properties
+}
+
+/**
+ * Record when and how the properties that differ between the person and `updatedProperties` were written.
+ * Properties in `setOnceKeys` count as written by `$set_once`, all others as by `$set`. Properties missing from
+ * `updatedProperties` are considered removed.
+ * Timestamps from the future are capped at now, so that one skewed client clock can't win all later merges.
+ */
+export function trackPropertyUpdates(
+    person: PersonPropertiesState,
+    updatedProperties: Properties,
+    setOnceKeys: string[],
+    timestamp: DateTime
+): { properties_last_updated_at: PropertiesLastUpdatedAt; properties_last_operation: PropertiesLastOperation } {
+    const updatedAt = DateTime.min(timestamp, DateTime.utc()).toUTC().toISO()
+    const lastUpdatedAt: PropertiesLastUpdatedAt = { ...person.properties_last_updated_at }
+    const lastOperation: PropertiesLastOperation = { ...person.properties_last_operation }
+    for (const [key, value] of Object.entries(updatedProperties)) {
+        if (key in person.properties && equal(person.properties[key], value)) {
+            continue
+        }
+        lastUpdatedAt[key] = updatedAt
+        lastOperation[key] = setOnceKeys.includes(key) ? PropertyUpdateOperation.SetOnce : PropertyUpdateOperation.Set
+    }
+    for (const key of Object.keys(lastUpdatedAt)) {
+        if (!(key in updatedProperties)) {
+            delete lastUpdatedAt[key]
+            delete lastOperation[key]
+        }
+    }
+    return { properties_last_updated_at: lastUpdatedAt, properties_last_operation: lastOperation }
+}
+
+/**
+ * Merge the properties of `otherPerson` into those of `mergeInto`, property by property:
+ * - a value written with `$set` beats one written with `$set_once`,
+ * - of two `$set` values the more recently written one wins,
+ * - of two `$set_once` values the first written one wins, just as if both had been set on one person.
+ * Values without a recorded timestamp predate tracking, so lose to any that have one.
+ * If neither value has one, `mergeInto` wins.
+ */
+export function mergePersonProperties(
+    mergeInto: PersonPropertiesState,
+    otherPerson: PersonPropertiesState
+): PersonPropertiesMerge {
+    const merge: PersonPropertiesMerge = {
+        properties: { ...mergeInto.properties },
+        properties_last_updated_at: { ...mergeInto.properties_last_updated_at },
+        properties_last_operation: { ...mergeInto.properties_last_operation },
+        takenFromOtherPerson: [],
+        discarded: {},
+    }
+    for (const [key, value] of Object.entries(otherPerson.properties)) {
+        if (key in mergeInto.properties && !otherPersonWins(mergeInto, otherPerson, key)) {
+            if (!equal(mergeInto.properties[key], value)) {
+                merge.discarded[key] = value
+            }
+            continue
+        }
+        if (key in mergeInto.properties && !equal(mergeInto.properties[key], value)) {
+            merge.discarded[key] = mergeInto.properties[key]
+        }
+        merge.properties[key] = value
+        merge.takenFromOtherPerson.push(key)
+        delete merge.properties_last_updated_at[key]
+        delete merge.properties_last_operation[key]
+        const updatedAt = otherPerson.properties_last_updated_at?.[key]
+        const operation = otherPerson.properties_last_operation?.[key]
+        if (updatedAt) {
+            merge.properties_last_updated_at[key] = updatedAt
+        }
+        if (operation) {
+            merge.properties_last_operation[key] = operation
+        }
+    }
+    return merge
+}
+
+function otherPersonWins(mergeInto: PersonPropertiesState, otherPerson: PersonPropertiesState, key: string): boolean {
+    const mergeIntoOperation = mergeInto.properties_last_operation?.[key] ?? PropertyUpdateOperation.Set
+    const otherOperation = otherPerson.properties_last_operation?.[key] ?? PropertyUpdateOperation.Set
+    if (mergeIntoOperation !== otherOperation) {
+        return otherOperation === PropertyUpdateOperation.Set
+    }
+
+    const mergeIntoUpdatedAt = mergeInto.properties_last_updated_at?.[key]
+    const otherUpdatedAt = otherPerson.properties_last_updated_at?.[key]
+    if (!mergeIntoUpdatedAt || !otherUpdatedAt) {
+        return !mergeIntoUpdatedAt && !!otherUpdatedAt
+    }
+    const difference = DateTime.fromISO(otherUpdatedAt).diff(DateTime.fromISO(mergeIntoUpdatedAt)).valueOf()
+    return otherOperation === PropertyUpdateOperation.SetOnce ? difference < 0 : difference > 0
+}
+
+/** Person property operations applied atomically in Postgres, in this order. */
+export interface PersonPropertyOperations {
+    /** Properties to remove. */
+    $unset?: string[]
+    /** Values to append to list properties. */
+    $append?: Properties
+    /** Values to add to list properties, unless already in there. A list adds each of its elements. */
+    $union?: Properties
+    /** Values to remove from list properties. A list removes each of its elements. */
+    $remove?: Properties
+    /** Numbers to raise numeric properties to. */
+    $max?: Record<string, number>
+    /** Numbers to lower numeric properties to. */
+    $min?: Record<string, number>
+}
+
+/** Pick valid person property operations out of event properties. Returns null if there are none. */
+export function extractPersonPropertyOperations(properties: Properties): PersonPropertyOperations | null {
+    const operations: PersonPropertyOperations = {}
+    const unset = properties['$unset']
+    if (Array.isArray(unset)) {
+        operations.$unset = unset.filter((key): key is string => typeof key === 'string')
+    } else if (isPlainObject(unset)) {
+        operations.$unset = Object.keys(unset)
+    }
+    for (const operation of ['$append', '$union', '$remove'] as const) {
+        if (isPlainObject(properties[operation])) {
+            operations[operation] = properties[operation]
+        }
+    }
+    for (const operation of ['$max', '$min'] as const) {
+        if (isPlainObject(properties[operation])) {
+            operations[operation] = Object.fromEntries(
+                Object.entries(properties[operation]).filter(
+                    (entry): entry is [string, number] => typeof entry[1] === 'number' && isFinite(entry[1])
+                )
+            )
+        }
+    }
+    const hasOperations = Object.values(operations).some((operation) => Object.keys(operation).length)
+    return hasOperations ? operations : null
+}
+
+/**
+ * Apply operations to person properties, returning the updated ones.
+ * Operations that don't fit the property's current value, like appending to a string, are skipped.
+ */
+export function applyPersonPropertyOperations(
+    properties: Properties,
+    operations: PersonPropertyOperations
+): Properties {
+    const updatedProperties = { ...properties }
+    for (const key of operations.$unset ?? []) {
+        delete updatedProperties[key]
+    }
+    for (const [key, value] of Object.entries(operations.$append ?? {})) {
+        const list = updatedProperties[key] ?? []
+        if (Array.isArray(list)) {
+            updatedProperties[key] = [...list, value]
+        }
+    }
+    for (const [key, value] of Object.entries(operations.$union ?? {})) {
+        const list = updatedProperties[key] ?? []
+        if (Array.isArray(list)) {
+            const newValues = (Array.isArray(value) ? value : [value]).filter(
+                (newValue, index, newValues) =>
+                    !list.some((listValue) => equal(listValue, newValue)) &&
+                    newValues.findIndex((otherValue) => equal(otherValue, newValue)) === index
+            )
+            updatedProperties[key] = [...list, ...newValues]
+        }
+    }
+    for (const [key, value] of Object.entries(operations.$remove ?? {})) {
+        const list = updatedProperties[key]
+        if (Array.isArray(list)) {
+            const valuesToRemove = Array.isArray(value) ? value : [value]
+            updatedProperties[key] = list.filter(
+                (listValue) => !valuesToRemove.some((valueToRemove) => equal(valueToRemove, listValue))
+            )
+        }
+    }
+    for (const [key, value] of Object.entries(operations.$max ?? {})) {
+        const current = updatedProperties[key]
+        if (current === undefined || (typeof current === 'number' && value > current)) {
+            updatedProperties[key] = value
+        }
+    }
+    for (const [key, value] of Object.entries(operations.$min ?? {})) {
+        const current = updatedProperties[key]
+        if (current === undefined || (typeof current === 'number' && value < current)) {
+            updatedProperties[key] = value
+        }
+    }
+    return updatedProperties
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -11,9 +11,11 @@ import {
     Element,
     Event,
     Hub,
+    IngestionStage,
     Person,
     PersonDistinctId,
     PostgresSessionRecordingEvent,
+    SchemaEnforcement,
     SessionRecordingEvent,
     TeamId,
     TimestampFormat,
@@ -24,24 +26,92 @@ import { KafkaProducerWrapper } from '../../utils/db/kafka-producer-wrapper'
 import {
     elementsToString,
     extractElements,
+    limitProperties,
     personInitialAndUTMProperties,
     sanitizeEventName,
     timeoutGuard,
 } from '../../utils/db/utils'
 import { status } from '../../utils/status'
 import { castTimestampOrNow, filterIncrementProperties, UUID, UUIDT } from '../../utils/utils'
+import { addToDeadLetterQueue } from './dead-letter-queue'
+import { applyEventSchema } from './event-schema'
 import { PersonManager } from './person-manager'
-import { TeamManager } from './team-manager'
+import {
+    applyPersonPropertyOperations,
+    extractPersonPropertyOperations,
+    mergePersonProperties,
+    PersonPropertyOperations,
+    trackPropertyUpdates,
+} from './person-properties'
+import { compressAndChunkSnapshot, SessionRecordingManager, SessionSnapshot } from './session-recording'
+import { SUPPRESSED_DISTINCT_IDS_INVALIDATION_CHANNEL, TeamManager } from './team-manager'
 
 const MAX_FAILED_PERSON_MERGE_ATTEMPTS = 3
+const ALIAS_REFUSAL_NOTICE_KEY_PREFIX = '@posthog-plugin-server/alias-refusal-notice/'
+const ALIAS_REFUSAL_NOTICE_INTERVAL_SECONDS = 60 * 60
+const INGESTED_EVENT_KEY_PREFIX = '@posthog-plugin-server/ingested-event/'
+/** Value of an event's key while it's being processed. */
+const EVENT_PROCESSING = 'processing'
+/** Value of an event's key while it's being processed, once its person property updates have been applied. */
+const EVENT_PROCESSING_PERSON_PROPERTIES_UPDATED = 'processing_person_properties_updated'
+/** Value of an event's key after a failed attempt at processing it, which had already updated person properties. */
+const EVENT_PERSON_PROPERTIES_UPDATED = 'person_properties_updated'
+
+/** Outcome of claiming an event for processing. */
+enum EventClaim {
+    Claimed = 'claimed',
+    /** Claimed after a failed attempt, which had already applied the event's person property updates. */
+    ClaimedWithPersonPropertiesUpdated = 'claimed_with_person_properties_updated',
+    /** Already being processed or processed. */
+    Duplicate = 'duplicate',
+}
+
+/**
+ * Claim an event for processing, unless it's claimed already.
+ * KEYS: the event's key
+ * ARGV: TTL in seconds
+ */
+const CLAIM_EVENT_SCRIPT = `
+if redis.call('SET', KEYS[1], '${EVENT_PROCESSING}', 'NX', 'EX', ARGV[1]) then
+    return '${EventClaim.Claimed}'
+end
+if redis.call('GET', KEYS[1]) == '${EVENT_PERSON_PROPERTIES_UPDATED}' then
+    redis.call('SET', KEYS[1], '${EVENT_PROCESSING_PERSON_PROPERTIES_UPDATED}', 'EX', ARGV[1])
+    return '${EventClaim.ClaimedWithPersonPropertiesUpdated}'
+end
+return '${EventClaim.Duplicate}'
+`
+
+/**
+ * Release the claim on an event, remembering if its person property updates were applied already.
+ * KEYS: the event's key
+ * ARGV: TTL in seconds
+ */
+const RELEASE_EVENT_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value == '${EVENT_PROCESSING}' then
+    redis.call('DEL', KEYS[1])
+elseif value == '${EVENT_PROCESSING_PERSON_PROPERTIES_UPDATED}' then
+    redis.call('SET', KEYS[1], '${EVENT_PERSON_PROPERTIES_UPDATED}', 'EX', ARGV[1])
+end
+`
 
 // for e.g. internal events we don't want to be available for users in the UI
 const EVENTS_WITHOUT_EVENT_DEFINITION = ['$$plugin_metrics']
+const EVENTS_CHANGING_PERSONS = ['$identify', '$create_alias']
+
+/** An event that passed validation, with its sanitized properties and the timestamp to store it with. */
+interface PreparedEvent {
+    properties: Properties
+    timestamp: DateTime
+}
 
 export interface EventProcessingResult {
     event: IEvent | SessionRecordingEvent | PostgresSessionRecordingEvent
     eventId?: number
     elements?: Element[]
+    /** Whether the snapshot is the first one stored of its session. Only set if actions could match that. */
+    sessionRecordingStarted?: boolean
 }
 
 export class EventsProcessor {
@@ -52,6 +122,7 @@ export class EventsProcessor {
     celery: Client
     teamManager: TeamManager
     personManager: PersonManager
+    sessionRecordingManager: SessionRecordingManager
 
     constructor(pluginsServer: Hub) {
         this.pluginsServer = pluginsServer
@@ -61,6 +132,7 @@ export class EventsProcessor {
         this.celery = new Client(pluginsServer.db, pluginsServer.CELERY_DEFAULT_QUEUE)
         this.teamManager = pluginsServer.teamManager
         this.personManager = new PersonManager(pluginsServer)
+        this.sessionRecordingManager = new SessionRecordingManager(pluginsServer)
     }
 
     public async processEvent(
@@ -73,28 +145,287 @@ export class EventsProcessor {
         sentAt: DateTime | null,
         eventUuid: string
     ): Promise<EventProcessingResult | void> {
+        const claim = await this.claimEvent(eventUuid, teamId)
+        if (claim === EventClaim.Duplicate) {
+            return
+        }
+        const personPropertiesUpdated = claim === EventClaim.ClaimedWithPersonPropertiesUpdated
+        try {
+            return await this.processNewEvent(
+                distinctId,
+                ip,
+                siteUrl,
+                data,
+                teamId,
+                now,
+                sentAt,
+                eventUuid,
+                personPropertiesUpdated
+            )
+        } catch (error) {
+            await this.releaseEvent(eventUuid)
+            throw error
+        }
+    }
+
+    /**
+     * Process a batch of events in bulk. Persons of all the batch's distinct IDs are fetched with a single query,
+     * and `$set`, `$set_once` and `$increment` updates are coalesced, so that each person is written at most once.
+     * Only events passing validation are coalesced, so rejected ones don't update persons.
+     * Events of one distinct ID are processed in order, and distinct IDs of one person one after another.
+     * Results are returned in the order of `events`.
+     */
+    public async processEventBatch(
+        events: PluginEvent[]
+    ): Promise<PromiseSettledResult<EventProcessingResult | void>[]> {
+        const results: PromiseSettledResult<EventProcessingResult | void>[] = new Array(events.length)
+
+        const eventIndexesByDistinctId = new Map<string, number[]>()
+        events.forEach((event, index) => {
+            const key = `${event.team_id}::${event.distinct_id}`
+            eventIndexesByDistinctId.set(key, [...(eventIndexesByDistinctId.get(key) ?? []), index])
+        })
+        const persons = await this.db.fetchPersonsByDistinctIds(
+            Array.from(eventIndexesByDistinctId.values()).map(([index]) => [
+                events[index].team_id,
+                String(events[index].distinct_id),
+            ])
+        )
+
+        const processDistinctIdEvents = async (eventIndexes: number[]): Promise<void> => {
+            const { team_id: teamId } = events[eventIndexes[0]]
+            const distinctId = String(events[eventIndexes[0]].distinct_id)
+            const person = persons.get(teamId)?.get(distinctId)
+            if (person) {
+                this.personManager.markPersonSeen(teamId, distinctId)
+            }
+
+            // identifying and aliasing can change the person behind a distinct ID midway, so no coalescing then
+            // - and neither with person property operations, whose outcome depends on the order of all updates
+            if (
+                eventIndexes.some(
+                    (index) =>
+                        EVENTS_CHANGING_PERSONS.includes(events[index].event) ||
+                        extractPersonPropertyOperations(events[index].properties ?? {})
+                )
+            ) {
+                for (const index of eventIndexes) {
+                    const event = events[index]
+                    try {
+                        const value = await this.processEvent(
+                            distinctId,
+                            event.ip,
+                            event.site_url,
+                            event,
+                            teamId,
+                            DateTime.fromISO(event.now),
+                            event.sent_at ? DateTime.fromISO(event.sent_at) : null,
+                            event.uuid!
+                        )
+                        results[index] = { status: 'fulfilled', value }
+                    } catch (error) {
+                        results[index] = { status: 'rejected', reason: error }
+                    }
+                }
+                return
+            }
+
+            const acceptedEvents: {
+                index: number
+                preparedEvent: PreparedEvent
+                personPropertiesUpdated: boolean
+            }[] = []
+            for (const index of eventIndexes) {
+                const event = events[index]
+                let claim: EventClaim | null = null
+                try {
+                    claim = await this.claimEvent(event.uuid!, teamId)
+                    if (claim === EventClaim.Duplicate) {
+                        results[index] = { status: 'fulfilled', value: undefined }
+                        continue
+                    }
+                    const preparedEvent = await this.prepareEvent(
+                        distinctId,
+                        event,
+                        teamId,
+                        DateTime.fromISO(event.now),
+                        event.sent_at ? DateTime.fromISO(event.sent_at) : null,
+                        event.uuid!
+                    )
+                    if (preparedEvent) {
+                        acceptedEvents.push({
+                            index,
+                            preparedEvent,
+                            personPropertiesUpdated: claim === EventClaim.ClaimedWithPersonPropertiesUpdated,
+                        })
+                    } else {
+                        results[index] = { status: 'fulfilled', value: undefined }
+                    }
+                } catch (error) {
+                    if (claim) {
+                        await this.releaseEvent(event.uuid!)
+                    }
+                    results[index] = { status: 'rejected', reason: error }
+                }
+            }
+
+            const coalescedEvents = acceptedEvents.filter(
+                ({ index, personPropertiesUpdated }) => !personPropertiesUpdated && events[index].event !== '$snapshot'
+            )
+            try {
+                await this.updateCoalescedPersonProperties(
+                    teamId,
+                    distinctId,
+                    coalescedEvents.map(({ preparedEvent }) => preparedEvent),
+                    person
+                )
+            } catch (error) {
+                for (const { index } of acceptedEvents) {
+                    await this.releaseEvent(events[index].uuid!)
+                    results[index] = { status: 'rejected', reason: error }
+                }
+                return
+            }
+            for (const { index } of coalescedEvents) {
+                await this.markPersonPropertiesUpdated(events[index].uuid!)
+            }
+            for (const { index, preparedEvent } of acceptedEvents) {
+                const event = events[index]
+                try {
+                    const value = await this.storeEvent(
+                        distinctId,
+                        event.ip,
+                        event.site_url,
+                        event,
+                        teamId,
+                        event.sent_at ? DateTime.fromISO(event.sent_at) : null,
+                        event.uuid!,
+                        preparedEvent,
+                        true
+                    )
+                    results[index] = { status: 'fulfilled', value }
+                } catch (error) {
+                    await this.releaseEvent(event.uuid!)
+                    results[index] = { status: 'rejected', reason: error }
+                }
+            }
+        }
+
+        // distinct IDs of one person are processed one after another, so that updates of the person don't interleave
+        const eventIndexesByPersonId = new Map<string, number[][]>()
+        for (const [key, eventIndexes] of eventIndexesByDistinctId) {
+            const { team_id: teamId, distinct_id: distinctId } = events[eventIndexes[0]]
+            const person = persons.get(teamId)?.get(String(distinctId))
+            const personKey = person ? `${teamId}::${person.id}` : key
+            eventIndexesByPersonId.set(personKey, [...(eventIndexesByPersonId.get(personKey) ?? []), eventIndexes])
+        }
+        await Promise.all(
+            Array.from(eventIndexesByPersonId.values()).map(async (distinctIdsEventIndexes) => {
+                for (const eventIndexes of distinctIdsEventIndexes) {
+                    await processDistinctIdEvents(eventIndexes)
+                }
+            })
+        )
+
+        return results
+    }
+
+    private async processNewEvent(
+        distinctId: string,
+        ip: string | null,
+        siteUrl: string,
+        data: PluginEvent,
+        teamId: number,
+        now: DateTime,
+        sentAt: DateTime | null,
+        eventUuid: string,
+        personPropertiesUpdated = false
+    ): Promise<EventProcessingResult | void> {
+        const preparedEvent = await this.prepareEvent(distinctId, data, teamId, now, sentAt, eventUuid)
+        if (!preparedEvent) {
+            return
+        }
+        return await this.storeEvent(
+            distinctId,
+            ip,
+            siteUrl,
+            data,
+            teamId,
+            sentAt,
+            eventUuid,
+            preparedEvent,
+            personPropertiesUpdated
+        )
+    }
+
+    /**
+     * Validate the event and sanitize its properties, before anything gets written.
+     * Returns null if the event is to be dropped.
+     */
+    private async prepareEvent(
+        distinctId: string,
+        data: PluginEvent,
+        teamId: number,
+        now: DateTime,
+        sentAt: DateTime | null,
+        eventUuid: string
+    ): Promise<PreparedEvent | null> {
         if (!UUID.validateString(eventUuid, false)) {
             throw new Error(`Not a valid UUID: "${eventUuid}"`)
         }
+        if (await this.isSuppressedDistinctId(distinctId, teamId)) {
+            return null
+        }
+
+        // Sanitize values, even though `sanitizeEvent` should have gotten to them
+        const properties: Properties = data.properties ?? {}
+        if (data['$set']) {
+            properties['$set'] = { ...properties['$set'], ...data['$set'] }
+        }
+        if (data['$set_once']) {
+            properties['$set_once'] = { ...properties['$set_once'], ...data['$set_once'] }
+        }
+        if (data['event'] !== '$snapshot') {
+            this.enforcePropertyLimits(properties, teamId)
+            if (!(await this.enforceEventSchema(data['event'], properties, teamId))) {
+                return null
+            }
+        }
+
+        const timestamp = await this.enforceTimestampBounds(
+            this.handleTimestamp(data, now, sentAt),
+            data,
+            properties,
+            teamId,
+            now,
+            sentAt
+        )
+        if (!timestamp) {
+            return null
+        }
+        return { properties, timestamp }
+    }
+
+    /** Store the prepared event, along with the person changes it brings. */
+    private async storeEvent(
+        distinctId: string,
+        ip: string | null,
+        siteUrl: string,
+        data: PluginEvent,
+        teamId: number,
+        sentAt: DateTime | null,
+        eventUuid: string,
+        { properties, timestamp: ts }: PreparedEvent,
+        personPropertiesUpdated = false
+    ): Promise<EventProcessingResult | void> {
         const singleSaveTimer = new Date()
         const timeout = timeoutGuard('Still inside "EventsProcessor.processEvent". Timeout warning after 30 sec!', {
             event: JSON.stringify(data),
         })
 
-        let result: EventProcessingResult | void
         try {
-            // Sanitize values, even though `sanitizeEvent` should have gotten to them
-            const properties: Properties = data.properties ?? {}
-            if (data['$set']) {
-                properties['$set'] = { ...properties['$set'], ...data['$set'] }
-            }
-            if (data['$set_once']) {
-                properties['$set_once'] = { ...properties['$set_once'], ...data['$set_once'] }
-            }
-
             const personUuid = new UUIDT().toString()
 
-            const ts = this.handleTimestamp(data, now, sentAt)
             const timeout1 = timeoutGuard('Still running "handleIdentifyOrAlias". Timeout warning after 30 sec!', {
                 eventUuid,
             })
@@ -110,18 +441,21 @@ export class EventsProcessor {
                     { eventUuid }
                 )
                 try {
-                    await this.createSessionRecordingEvent(
-                        eventUuid,
+                    const result = await this.recordSnapshot(
                         teamId,
-                        distinctId,
-                        properties['$session_id'],
-                        ts,
-                        properties['$snapshot_data']
+                        {
+                            uuid: eventUuid,
+                            distinctId,
+                            sessionId: properties['$session_id'],
+                            timestamp: ts.toISO(),
+                            snapshotData: properties['$snapshot_data'],
+                        },
+                        properties
                     )
                     this.pluginsServer.statsd?.timing('kafka_queue.single_save.snapshot', singleSaveTimer, {
                         team_id: teamId.toString(),
                     })
-                    // No return value in case of snapshot events as we don't do action matching on them
+                    return result
                 } finally {
                     clearTimeout(timeout2)
                 }
@@ -138,12 +472,21 @@ export class EventsProcessor {
                         distinctId,
                         properties,
                         ts,
-                        sentAt
+                        sentAt,
+                        personPropertiesUpdated
                     )
                     this.pluginsServer.statsd?.timing('kafka_queue.single_save.standard', singleSaveTimer, {
                         team_id: teamId.toString(),
                     })
-                    result = {
+                    if (properties['$session_id']) {
+                        await this.handleSessionRecordingTrigger(
+                            teamId,
+                            properties['$session_id'],
+                            data['event'],
+                            properties
+                        )
+                    }
+                    return {
                         event,
                         eventId,
                         elements,
@@ -155,7 +498,117 @@ export class EventsProcessor {
         } finally {
             clearTimeout(timeout)
         }
-        return result
+    }
+
+    /**
+     * Claim the event UUID for processing, atomically, so that concurrent deliveries of the event can't both be
+     * processed. Always succeeds with deduplication disabled.
+     */
+    private async claimEvent(eventUuid: string, teamId: number): Promise<EventClaim> {
+        if (!this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS) {
+            return EventClaim.Claimed
+        }
+        const claim = (await this.db.redisEval(
+            CLAIM_EVENT_SCRIPT,
+            [`${INGESTED_EVENT_KEY_PREFIX}${eventUuid}`],
+            [this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS]
+        )) as EventClaim
+        if (claim === EventClaim.Duplicate) {
+            // Kafka redelivery or Celery retry of an event we're processing or already processed - skip capture,
+            // person updates and (thanks to the missing result) action matching
+            this.pluginsServer.statsd?.increment('kafka_queue.duplicate_event_skipped', {
+                team_id: teamId.toString(),
+            })
+        }
+        return claim
+    }
+
+    /**
+     * Remember that the claimed event's person property updates have been applied, right after they're written, so
+     * that a retry skips them even if this attempt fails before it gets to release the event. Never throws.
+     */
+    private async markPersonPropertiesUpdated(eventUuid: string): Promise<void> {
+        if (!this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS) {
+            return
+        }
+        try {
+            await this.db.redisSet(
+                `${INGESTED_EVENT_KEY_PREFIX}${eventUuid}`,
+                EVENT_PROCESSING_PERSON_PROPERTIES_UPDATED,
+                this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS,
+                { jsonSerialize: false }
+            )
+        } catch (error) {
+            status.error('⚠️', `Could not mark person properties of event ${eventUuid} as updated:`, error)
+            Sentry.captureException(error, { extra: { eventUuid } })
+        }
+    }
+
+    /**
+     * Release the claim on an event that failed processing, so that it can be retried. If the event's person
+     * property updates were applied already, that's remembered for the retry to skip them. Never throws.
+     */
+    private async releaseEvent(eventUuid: string): Promise<void> {
+        if (!this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS) {
+            return
+        }
+        try {
+            await this.db.redisEval(
+                RELEASE_EVENT_SCRIPT,
+                [`${INGESTED_EVENT_KEY_PREFIX}${eventUuid}`],
+                [this.pluginsServer.EVENT_DEDUPLICATION_WINDOW_SECONDS]
+            )
+        } catch (error) {
+            status.error('⚠️', `Could not release event ${eventUuid}, so retries of it will be skipped:`, error)
+            Sentry.captureException(error, { extra: { eventUuid } })
+        }
+    }
+
+    private async isSuppressedDistinctId(distinctId: string, teamId: number): Promise<boolean> {
+        if (!(await this.teamManager.isDistinctIdSuppressed(teamId, distinctId))) {
+            return false
+        }
+        this.pluginsServer.statsd?.increment('kafka_queue.suppressed_event_dropped', {
+            team_id: teamId.toString(),
+        })
+        return true
+    }
+
+    /**
+     * Erase the person of the distinct ID, e.g. on a GDPR request, and suppress their distinct IDs.
+     * The distinct ID is suppressed even if there's no such person (yet), so that they can't appear later.
+     */
+    public async erasePerson(teamId: number, distinctId: string): Promise<void> {
+        const person = await this.db.fetchPerson(teamId, distinctId)
+        const distinctIds = person ? await this.db.erasePerson(person) : []
+        if (!distinctIds.includes(distinctId)) {
+            await this.db.suppressDistinctIds(teamId, [distinctId])
+        }
+        this.teamManager.invalidateSuppressedDistinctIds(teamId)
+        await this.db.redisPublish(SUPPRESSED_DISTINCT_IDS_INVALIDATION_CHANNEL, JSON.stringify({ teamId }))
+        status.info(
+            '🗑',
+            `Erased person ${person?.uuid ?? '(not found)'} of distinct ID "${distinctId}" in team ${teamId}`
+        )
+        this.pluginsServer.statsd?.increment('person_erased', { team_id: teamId.toString() })
+    }
+
+    /**
+     * Split the distinct IDs off their person into a new one, e.g. when a shared device got identified as the wrong
+     * user. Recorded as a `$person_split` event of the first distinct ID.
+     */
+    public async splitPerson(teamId: number, distinctIds: string[]): Promise<Person> {
+        const person = distinctIds.length ? await this.db.fetchPerson(teamId, distinctIds[0]) : undefined
+        if (!person) {
+            throw new Error(`Could not find person with distinct id "${distinctIds[0]}" in team "${teamId}"`)
+        }
+        const newPerson = await this.db.splitPerson(person, distinctIds)
+        await this.createEvent(new UUIDT().toString(), '$person_split', teamId, distinctIds[0], {
+            $split_from_person_uuid: person.uuid,
+            $split_into_person_uuid: newPerson.uuid,
+            $split_distinct_ids: distinctIds,
+        })
+        return newPerson
     }
 
     private handleTimestamp(data: PluginEvent, now: DateTime, sentAt: DateTime | null): DateTime {
@@ -180,6 +633,98 @@ export class EventsProcessor {
         return now
     }
 
+    /** Enforce the configured size limits on properties, in place, noting what was dropped in `$dropped_properties`. */
+    private enforcePropertyLimits(properties: Properties, teamId: number): void {
+        const [limitedProperties, droppedPaths] = limitProperties(properties, this.pluginsServer)
+        if (!droppedPaths.length) {
+            return
+        }
+        // replacing in place, as action matching later on works with this same object
+        for (const key of Object.keys(properties)) {
+            delete properties[key]
+        }
+        Object.assign(properties, limitedProperties, { $dropped_properties: droppedPaths })
+        this.pluginsServer.statsd?.increment('kafka_queue.properties_limited', { team_id: teamId.toString() })
+    }
+
+    /**
+     * Validate properties against the team's schema for this event, if there's one, tagging violations in
+     * `$schema_violations`. Returns false if the event should be rejected.
+     */
+    private async enforceEventSchema(event: string, properties: Properties, teamId: number): Promise<boolean> {
+        if (!this.pluginsServer.EVENT_SCHEMA_VALIDATION) {
+            return true
+        }
+        const schema = await this.teamManager.fetchEventSchema(teamId, event)
+        if (!schema) {
+            return true
+        }
+        const violations = applyEventSchema(schema, properties)
+        if (!violations.length) {
+            return true
+        }
+        this.pluginsServer.statsd?.increment('kafka_queue.schema_violation', {
+            team_id: teamId.toString(),
+            enforcement: schema.enforcement,
+        })
+        if (schema.enforcement === SchemaEnforcement.Reject) {
+            return false
+        }
+        properties['$schema_violations'] = violations
+        return true
+    }
+
+    /**
+     * Keep client clocks from putting events too far into the future or the past, as configured.
+     * Returns the timestamp to use (clamped to `now` if needed), or null if the event should be rejected.
+     * Rejected events are kept in the dead letter queue.
+     */
+    private async enforceTimestampBounds(
+        ts: DateTime,
+        data: PluginEvent,
+        properties: Properties,
+        teamId: number,
+        now: DateTime,
+        sentAt: DateTime | null
+    ): Promise<DateTime | null> {
+        const { EVENT_MAX_FUTURE_DRIFT_SECONDS, EVENT_MAX_AGE_SECONDS, EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING } =
+            this.pluginsServer
+        let bound: 'future' | 'past'
+        if (EVENT_MAX_FUTURE_DRIFT_SECONDS && ts > now.plus({ seconds: EVENT_MAX_FUTURE_DRIFT_SECONDS })) {
+            bound = 'future'
+        } else if (EVENT_MAX_AGE_SECONDS && ts < now.minus({ seconds: EVENT_MAX_AGE_SECONDS })) {
+            bound = 'past'
+        } else {
+            return ts
+        }
+
+        this.pluginsServer.statsd?.increment('kafka_queue.timestamp_out_of_bounds', {
+            team_id: teamId.toString(),
+            bound,
+            handling: EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING,
+        })
+        if (EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING === 'reject') {
+            await addToDeadLetterQueue(
+                this.pluginsServer,
+                data,
+                new Error(`Event timestamp ${ts.toISO()} is too far in the ${bound}`),
+                IngestionStage.TimestampValidation
+            )
+            return null
+        }
+        // keep what the client sent, so that the clamping can be understood later
+        if (data['timestamp']) {
+            properties['$original_timestamp'] = data['timestamp']
+        }
+        if (sentAt) {
+            properties['$original_sent_at'] = sentAt.toISO()
+        }
+        if (data['offset']) {
+            properties['$original_offset'] = data['offset']
+        }
+        return now
+    }
+
     private async handleIdentifyOrAlias(
         event: string,
         properties: Properties,
@@ -220,15 +765,97 @@ export class EventsProcessor {
         }
     }
 
+    /** Apply person property updates of multiple events of one distinct ID at once, as if applied in order. */
+    private async updateCoalescedPersonProperties(
+        teamId: number,
+        distinctId: string,
+        preparedEvents: PreparedEvent[],
+        personFound?: Person
+    ): Promise<void> {
+        let propertiesToSet: Properties = {}
+        let propertiesToSetOnce: Properties = {}
+        const propertiesToIncrement: Record<string, number> = {}
+        // the update is recorded as of the latest of the events
+        let timestamp: DateTime | null = null
+        for (const preparedEvent of preparedEvents) {
+            timestamp = timestamp ? DateTime.max(timestamp, preparedEvent.timestamp) : preparedEvent.timestamp
+            // same as in `capture`
+            const properties = personInitialAndUTMProperties(preparedEvent.properties)
+            propertiesToSet = { ...propertiesToSet, ...properties['$set'] }
+            propertiesToSetOnce = { ...properties['$set_once'], ...propertiesToSetOnce }
+            for (const [key, value] of Object.entries(filterIncrementProperties(properties['$increment']))) {
+                propertiesToIncrement[key] = (propertiesToIncrement[key] ?? 0) + value
+            }
+        }
+
+        if (
+            !timestamp ||
+            (!Object.keys(propertiesToSet).length &&
+                !Object.keys(propertiesToSetOnce).length &&
+                !Object.keys(propertiesToIncrement).length)
+        ) {
+            return
+        }
+        if (personFound) {
+            // the person may have changed since being fetched for the batch, so the update is based on the person
+            // as of its transaction
+            const setOnceKeys = Object.keys(propertiesToSetOnce).filter(
+                (key) => !(key in propertiesToSet) && !(key in propertiesToIncrement)
+            )
+            const updateTimestamp = timestamp
+            await this.db.updatePersonAtomically(personFound, (currentPerson) => {
+                const updatedProperties: Properties = {
+                    ...propertiesToSetOnce,
+                    ...currentPerson.properties,
+                    ...propertiesToSet,
+                }
+                // same as `incrementPersonProperties`, non-numeric values are left alone
+                for (const [key, value] of Object.entries(propertiesToIncrement)) {
+                    const currentValue = currentPerson.properties[key] ?? 0
+                    if (/^([-+])?[0-9.]+$/.test(String(currentValue))) {
+                        updatedProperties[key] = Number(currentValue) + value
+                    }
+                }
+                if (equal(currentPerson.properties, updatedProperties)) {
+                    return null
+                }
+                return {
+                    properties: updatedProperties,
+                    ...trackPropertyUpdates(currentPerson, updatedProperties, setOnceKeys, updateTimestamp),
+                }
+            })
+        } else {
+            await this.updatePersonProperties(
+                teamId,
+                distinctId,
+                propertiesToSet,
+                propertiesToSetOnce,
+                propertiesToIncrement,
+                timestamp
+            )
+        }
+    }
+
     private async updatePersonProperties(
         teamId: number,
         distinctId: string,
         properties: Properties,
         propertiesOnce: Properties,
-        incrementProperties: Record<string, number>
+        incrementProperties: Record<string, number>,
+        timestamp: DateTime,
+        prefetchedPerson?: Person
     ): Promise<Person> {
-        let personFound = await this.db.fetchPerson(teamId, distinctId)
+        const setOnceKeys = Object.keys(propertiesOnce).filter(
+            (key) => !(key in properties) && !(key in incrementProperties)
+        )
+        let personFound = prefetchedPerson ?? (await this.db.fetchPerson(teamId, distinctId))
         if (!personFound) {
+            const { properties_last_updated_at, properties_last_operation } = trackPropertyUpdates(
+                { properties: {}, properties_last_updated_at: {}, properties_last_operation: {} },
+                properties,
+                setOnceKeys,
+                timestamp
+            )
             try {
                 personFound = await this.db.createPerson(
                     DateTime.utc(),
@@ -237,7 +864,9 @@ export class EventsProcessor {
                     null,
                     false,
                     new UUIDT().toString(),
-                    [distinctId]
+                    [distinctId],
+                    properties_last_updated_at,
+                    properties_last_operation
                 )
             } catch {
                 // Catch race condition where in between getting and creating,
@@ -272,7 +901,33 @@ export class EventsProcessor {
             updatedProperties = { ...updatedProperties, ...incrementedPropertiesQueryResult.rows[0].properties }
         }
 
-        return await this.db.updatePerson(personFound, { properties: updatedProperties })
+        return await this.db.updatePerson(personFound, {
+            properties: updatedProperties,
+            ...trackPropertyUpdates(personFound, updatedProperties, setOnceKeys, timestamp),
+        })
+    }
+
+    private async applyPersonPropertyOperations(
+        teamId: number,
+        distinctId: string,
+        operations: PersonPropertyOperations,
+        timestamp: DateTime,
+        prefetchedPerson?: Person
+    ): Promise<void> {
+        const personFound = prefetchedPerson ?? (await this.db.fetchPerson(teamId, distinctId))
+        if (!personFound) {
+            throw new Error(`Could not find person with distinct id "${distinctId}" in team "${teamId}"`)
+        }
+        await this.db.updatePersonAtomically(personFound, (currentPerson) => {
+            const updatedProperties = applyPersonPropertyOperations(currentPerson.properties, operations)
+            if (equal(currentPerson.properties, updatedProperties)) {
+                return null
+            }
+            return {
+                properties: updatedProperties,
+                ...trackPropertyUpdates(currentPerson, updatedProperties, [], timestamp),
+            }
+        })
     }
 
     private async alias(
@@ -285,6 +940,11 @@ export class EventsProcessor {
         const newPerson = await this.db.fetchPerson(teamId, distinctId)
 
         if (oldPerson && !newPerson) {
+            const refusalReason = await this.getAliasRefusalReason(oldPerson)
+            if (refusalReason) {
+                await this.refuseAlias(previousDistinctId, distinctId, teamId, refusalReason)
+                return
+            }
             try {
                 await this.db.addDistinctId(oldPerson, distinctId)
                 // Catch race case when somebody already added this distinct_id between .get and .addDistinctId
@@ -299,6 +959,11 @@ export class EventsProcessor {
         }
 
         if (!oldPerson && newPerson) {
+            const refusalReason = await this.getAliasRefusalReason(newPerson)
+            if (refusalReason) {
+                await this.refuseAlias(previousDistinctId, distinctId, teamId, refusalReason)
+                return
+            }
             try {
                 await this.db.addDistinctId(newPerson, previousDistinctId)
                 // Catch race case when somebody already added this distinct_id between .get and .addDistinctId
@@ -330,21 +995,82 @@ export class EventsProcessor {
         }
 
         if (oldPerson && newPerson && oldPerson.id !== newPerson.id) {
-            await this.mergePeople(newPerson, oldPerson)
+            const refusalReason = await this.getAliasRefusalReason(newPerson, oldPerson)
+            if (refusalReason) {
+                await this.refuseAlias(previousDistinctId, distinctId, teamId, refusalReason)
+                return
+            }
+            await this.mergePeople(newPerson, oldPerson, distinctId)
         }
     }
 
-    public async mergePeople(mergeInto: Person, otherPerson: Person): Promise<void> {
+    /**
+     * Check aliasing against the merge policy: adding a distinct ID to `person`, or merging `otherPerson` into it.
+     * Returns why it's refused, or null if it's fine.
+     */
+    private async getAliasRefusalReason(person: Person, otherPerson?: Person): Promise<string | null> {
+        if (this.pluginsServer.PERSON_MERGE_REFUSE_IDENTIFIED && otherPerson?.is_identified && person.is_identified) {
+            return 'both persons are identified'
+        }
+        const maxDistinctIds = this.pluginsServer.PERSON_MAX_DISTINCT_IDS
+        if (maxDistinctIds) {
+            const distinctIdCount =
+                (await this.db.countDistinctIds(person)) +
+                (otherPerson ? await this.db.countDistinctIds(otherPerson) : 1)
+            if (distinctIdCount > maxDistinctIds) {
+                return `the person would have ${distinctIdCount} distinct IDs, over the limit of ${maxDistinctIds}`
+            }
+        }
+        return null
+    }
+
+    /**
+     * Warn about a refused alias. As it's likely to be an SDK misuse, the team's webhook is notified too, though only
+     * of the first refusal per `ALIAS_REFUSAL_NOTICE_INTERVAL_SECONDS`, not to flood it. Never throws.
+     */
+    private async refuseAlias(
+        previousDistinctId: string,
+        distinctId: string,
+        teamId: number,
+        reason: string
+    ): Promise<void> {
+        const message = `Refusing to alias "${previousDistinctId}" to "${distinctId}": ${reason}`
+        status.warn('⚠️', `${message} (team ID ${teamId})`)
+        this.pluginsServer.statsd?.increment('person_merge_refused', { team_id: teamId.toString() })
+        try {
+            const team = await this.teamManager.fetchTeam(teamId)
+            if (
+                team?.slack_incoming_webhook &&
+                (await this.db.redisSetNX(
+                    `${ALIAS_REFUSAL_NOTICE_KEY_PREFIX}${teamId}`,
+                    message,
+                    ALIAS_REFUSAL_NOTICE_INTERVAL_SECONDS
+                ))
+            ) {
+                await this.pluginsServer.hookCannon.postTeamNotice(
+                    team,
+                    `⚠️ ${message}. Further refused aliases of the next hour are only logged.`
+                )
+            }
+        } catch (error) {
+            status.error('⚠️', `Could not notify team ${teamId} of a refused alias:`, error)
+            Sentry.captureException(error, { extra: { teamId } })
+        }
+    }
+
+    /** Merge `otherPerson` into `mergeInto`, recording the merge as a `$person_merged` event of `distinctId`. */
+    public async mergePeople(mergeInto: Person, otherPerson: Person, distinctId: string): Promise<void> {
         let firstSeen = mergeInto.created_at
 
         // Merge properties
-        mergeInto.properties = { ...otherPerson.properties, ...mergeInto.properties }
+        const { takenFromOtherPerson, discarded, ...propertiesUpdate } = mergePersonProperties(mergeInto, otherPerson)
         if (otherPerson.created_at < firstSeen) {
             // Keep the oldest created_at (i.e. the first time we've seen this person)
             firstSeen = otherPerson.created_at
         }
 
-        await this.db.updatePerson(mergeInto, { created_at: firstSeen, properties: mergeInto.properties })
+        await this.db.updatePerson(mergeInto, { created_at: firstSeen, ...propertiesUpdate })
+        const otherPersonDistinctIds = await this.db.fetchDistinctIdValues(otherPerson)
 
         // Merge the distinct IDs
         await this.db.postgresQuery(
@@ -380,6 +1106,14 @@ export class EventsProcessor {
                 continue // Not OK, trying again to make sure that ALL distinct IDs are merged
             }
         }
+
+        await this.createEvent(new UUIDT().toString(), '$person_merged', mergeInto.team_id, distinctId, {
+            $merged_person_uuid: otherPerson.uuid,
+            $merged_into_person_uuid: mergeInto.uuid,
+            $merged_distinct_ids: otherPersonDistinctIds,
+            $properties_from_merged_person: takenFromOtherPerson,
+            $discarded_properties: discarded,
+        })
     }
 
     private async capture(
@@ -392,7 +1126,8 @@ export class EventsProcessor {
         distinctId: string,
         properties: Properties,
         timestamp: DateTime,
-        sentAt: DateTime | null
+        sentAt: DateTime | null,
+        personPropertiesUpdated = false
     ): Promise<[IEvent, Event['id'] | undefined, Element[] | undefined]> {
         event = sanitizeEventName(event)
         const elements: Record<string, any>[] | undefined = properties['$elements']
@@ -428,16 +1163,33 @@ export class EventsProcessor {
 
         properties = personInitialAndUTMProperties(properties)
 
-        if (properties['$set'] || properties['$set_once'] || properties['$increment']) {
-            const filteredIncrementProperties = filterIncrementProperties(properties['$increment'])
+        if (!personPropertiesUpdated) {
+            let person: Person | undefined
+            if (properties['$set'] || properties['$set_once'] || properties['$increment']) {
+                const filteredIncrementProperties = filterIncrementProperties(properties['$increment'])
 
-            await this.updatePersonProperties(
-                teamId,
-                distinctId,
-                properties['$set'] || {},
-                properties['$set_once'] || {},
-                filteredIncrementProperties
-            )
+                person = await this.updatePersonProperties(
+                    teamId,
+                    distinctId,
+                    properties['$set'] || {},
+                    properties['$set_once'] || {},
+                    filteredIncrementProperties,
+                    timestamp
+                )
+            }
+            const personPropertyOperations = extractPersonPropertyOperations(properties)
+            if (personPropertyOperations) {
+                await this.applyPersonPropertyOperations(
+                    teamId,
+                    distinctId,
+                    personPropertyOperations,
+                    timestamp,
+                    person
+                )
+            }
+            if (person || personPropertyOperations) {
+                await this.markPersonPropertiesUpdated(eventUuid)
+            }
         }
 
         return await this.createEvent(
@@ -518,6 +1270,65 @@ export class EventsProcessor {
         return [eventPayload, eventId, elements]
     }
 
+    /**
+     * Store the snapshot if its session is to be recorded, along with any snapshots of the session it releases.
+     * Results in the stored snapshot, for action matching. Nothing results from a snapshot not stored (yet).
+     */
+    private async recordSnapshot(
+        teamId: number,
+        snapshot: SessionSnapshot,
+        properties: Properties
+    ): Promise<EventProcessingResult | void> {
+        const team = await this.teamManager.fetchTeam(teamId)
+        const snapshots = team
+            ? await this.sessionRecordingManager.filterSnapshot(team, snapshot, properties)
+            : [snapshot]
+        const events = await this.createSessionRecordingEvents(teamId, snapshots)
+        // the snapshot itself comes last, after any it released
+        if (snapshots[snapshots.length - 1] !== snapshot) {
+            return
+        }
+        // only worth a Redis round trip if any action could match the session's start
+        const sessionRecordingStarted =
+            this.pluginsServer.actionManager.hasSessionRecordingActions(teamId) &&
+            (await this.sessionRecordingManager.isSessionRecordingStart(teamId, snapshot.sessionId))
+        return { event: events[events.length - 1], sessionRecordingStarted }
+    }
+
+    /** Store buffered snapshots of the session if the event triggers its recording. */
+    private async handleSessionRecordingTrigger(
+        teamId: number,
+        sessionId: string,
+        event: string,
+        properties: Properties
+    ): Promise<void> {
+        const team = await this.teamManager.fetchTeam(teamId)
+        if (team) {
+            const snapshots = await this.sessionRecordingManager.handleSessionEvent(team, sessionId, event, properties)
+            await this.createSessionRecordingEvents(teamId, snapshots)
+        }
+    }
+
+    private async createSessionRecordingEvents(
+        teamId: number,
+        snapshots: SessionSnapshot[]
+    ): Promise<(SessionRecordingEvent | PostgresSessionRecordingEvent)[]> {
+        const events: (SessionRecordingEvent | PostgresSessionRecordingEvent)[] = []
+        for (const snapshot of snapshots) {
+            events.push(
+                await this.createSessionRecordingEvent(
+                    snapshot.uuid,
+                    teamId,
+                    snapshot.distinctId,
+                    snapshot.sessionId,
+                    snapshot.timestamp,
+                    snapshot.snapshotData
+                )
+            )
+        }
+        return events
+    }
+
     private async createSessionRecordingEvent(
         uuid: string,
         team_id: number,
@@ -542,10 +1353,20 @@ export class EventsProcessor {
         }
 
         if (this.kafkaProducer) {
-            await this.kafkaProducer.queueMessage({
-                topic: KAFKA_SESSION_RECORDING_EVENTS,
-                messages: [{ key: uuid, value: Buffer.from(JSON.stringify(data)) }],
-            })
+            const chunkSize = this.pluginsServer.SESSION_RECORDING_CHUNK_SIZE
+            const snapshotDataChunks = chunkSize ? compressAndChunkSnapshot(snapshot_data, chunkSize) : [snapshot_data]
+            for (const [index, snapshotDataChunk] of snapshotDataChunks.entries()) {
+                const chunk: SessionRecordingEvent = {
+                    ...data,
+                    uuid: index ? new UUIDT().toString() : uuid,
+                    snapshot_data: JSON.stringify(snapshotDataChunk),
+                }
+                // all chunks are keyed by the event, so that they end up in one partition, in order
+                await this.kafkaProducer.queueMessage({
+                    topic: KAFKA_SESSION_RECORDING_EVENTS,
+                    messages: [{ key: uuid, value: Buffer.from(JSON.stringify(chunk)) }],
+                })
+            }
         } else {
             const {
                 rows: [eventCreated],
@@ -0,0 +1,239 @@
+import { Properties } from '@posthog/plugin-scaffold'
+import { createHash } from 'crypto'
+import { DateTime } from 'luxon'
+import { gunzipSync, gzipSync } from 'zlib'
+
+import { Hub, Team } from '../../types'
+import { UUIDT } from '../../utils/utils'
+
+const SESSION_RECORDING_KEY_PREFIX = '@posthog-plugin-server/session-recording/'
+
+/** Event matched against actions when the first snapshot of a session gets stored. Not stored itself. */
+export const SESSION_RECORDING_STARTED_EVENT = '$session_recording_started'
+/** Events only matched against actions opted into session recording events. */
+export const SESSION_RECORDING_EVENTS = ['$snapshot', SESSION_RECORDING_STARTED_EVENT]
+
+/** rrweb event type of full snapshots, which replay can start from. */
+const RRWEB_FULL_SNAPSHOT_EVENT_TYPE = 2
+
+/** Snapshot data of one chunk of a compressed snapshot, as stored in `snapshot_data`. */
+export interface SnapshotChunk {
+    /** Shared by all chunks of one snapshot. */
+    chunk_id: string
+    chunk_index: number
+    chunk_count: number
+    /** This chunk's part of the gzipped and base64-encoded snapshot data. */
+    data: string
+    compression: 'gzip-base64'
+    has_full_snapshot: boolean
+}
+
+/**
+ * Compress snapshot data and split it into chunks of at most `chunkSize` characters, to be stored in order.
+ * Joining the data of all chunks and decompressing it gives back the original snapshot data.
+ */
+export function compressAndChunkSnapshot(snapshotData: unknown, chunkSize: number): SnapshotChunk[] {
+    const data = gzipSync(JSON.stringify(snapshotData)).toString('base64')
+    const chunkId = new UUIDT().toString()
+    const chunkCount = Math.max(Math.ceil(data.length / chunkSize), 1)
+    const hasFullSnapshot =
+        typeof snapshotData === 'object' &&
+        snapshotData !== null &&
+        (snapshotData as Record<string, any>).type === RRWEB_FULL_SNAPSHOT_EVENT_TYPE
+    return Array.from({ length: chunkCount }, (_, chunkIndex) => ({
+        chunk_id: chunkId,
+        chunk_index: chunkIndex,
+        chunk_count: chunkCount,
+        data: data.slice(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize),
+        compression: 'gzip-base64',
+        has_full_snapshot: hasFullSnapshot,
+    }))
+}
+
+/** Reassemble snapshot data from all of its chunks, in any order. */
+export function decompressSnapshotChunks(chunks: SnapshotChunk[]): unknown {
+    const data = [...chunks]
+        .sort((a, b) => a.chunk_index - b.chunk_index)
+        .map((chunk) => chunk.data)
+        .join('')
+    return JSON.parse(gunzipSync(Buffer.from(data, 'base64')).toString())
+}
+
+/** A snapshot on its way to storage, as buffered until its session meets the team's recording criteria. */
+export interface SessionSnapshot {
+    uuid: string
+    distinctId: string
+    sessionId: string
+    /** ISO timestamp of the snapshot event. */
+    timestamp: string
+    snapshotData: Record<string, any>
+}
+
+/**
+ * Update a session's state with a snapshot and/or trigger, buffering the snapshot or releasing the buffer.
+ * Runs in Redis so that it's atomic: no snapshot can be pushed while the buffer is being released by another worker.
+ *
+ * The state is JSON with the timestamps of the first and last snapshot seen, in milliseconds, whether the session was
+ * triggered, and whether it's recorded - which is set once the session meets the criteria, after which its snapshots
+ * are stored right away.
+ *
+ * KEYS: state, buffer
+ * ARGV: snapshot JSON or '', snapshot timestamp or '', '1' if triggered, '1' if a trigger is required,
+ *       minimum duration in milliseconds, TTL in seconds
+ * Returns {0} when buffered, {1} when the session was already recorded,
+ * or {2, ...buffered snapshots, newest first} when it just started being recorded.
+ */
+const UPDATE_SESSION_SCRIPT = `
+local stateKey, bufferKey = KEYS[1], KEYS[2]
+local snapshot, timestamp, triggered = ARGV[1], tonumber(ARGV[2]), ARGV[3] == '1'
+local requiresTrigger, minimumDuration, ttlSeconds = ARGV[4] == '1', tonumber(ARGV[5]), tonumber(ARGV[6])
+
+local rawState = redis.call('GET', stateKey)
+local state = rawState and cjson.decode(rawState) or {}
+if state.recorded == true then
+    redis.call('EXPIRE', stateKey, ttlSeconds)
+    return {1}
+end
+
+local firstTimestamp = type(state.firstTimestamp) == 'number' and state.firstTimestamp or timestamp
+local lastTimestamp = type(state.lastTimestamp) == 'number' and state.lastTimestamp or timestamp
+if timestamp then
+    firstTimestamp = math.min(firstTimestamp, timestamp)
+    lastTimestamp = math.max(lastTimestamp, timestamp)
+end
+state = { firstTimestamp = firstTimestamp, lastTimestamp = lastTimestamp, triggered = triggered or state.triggered == true }
+
+local duration = firstTimestamp and lastTimestamp - firstTimestamp or 0
+if (requiresTrigger and not state.triggered) or duration < minimumDuration then
+    redis.call('SET', stateKey, cjson.encode(state), 'EX', ttlSeconds)
+    if snapshot ~= '' then
+        redis.call('LPUSH', bufferKey, snapshot)
+        redis.call('EXPIRE', bufferKey, ttlSeconds)
+    end
+    return {0}
+end
+
+state.recorded = true
+redis.call('SET', stateKey, cjson.encode(state), 'EX', ttlSeconds)
+local result = redis.call('LRANGE', bufferKey, 0, -1)
+redis.call('DEL', bufferKey)
+table.insert(result, 1, 2)
+return result
+`
+
+/** Whether the session falls into the team's sample. Decided by the session ID, so the same for all its snapshots. */
+export function isSessionSampled(sessionId: string, sampleRate: number | null | undefined): boolean {
+    if (sampleRate === null || sampleRate === undefined || sampleRate >= 1) {
+        return true
+    }
+    const hash = createHash('sha1').update(String(sessionId)).digest().readUInt32BE(0)
+    return hash / 2 ** 32 < sampleRate
+}
+
+/** Whether an event triggers recording of its session. For snapshots, the URL is taken from rrweb meta events. */
+export function isSessionRecordingTrigger(team: Team, event: string, properties: Properties): boolean {
+    if (team.session_recording_trigger_events?.includes(event)) {
+        return true
+    }
+    const url = properties['$current_url'] ?? properties['$snapshot_data']?.data?.href
+    return (
+        typeof url === 'string' && !!team.session_recording_trigger_urls?.some((triggerUrl) => url.includes(triggerUrl))
+    )
+}
+
+function hasSessionRecordingTriggers(team: Team): boolean {
+    return !!team.session_recording_trigger_events?.length || !!team.session_recording_trigger_urls?.length
+}
+
+function hasSessionRecordingCriteria(team: Team): boolean {
+    return hasSessionRecordingTriggers(team) || !!team.session_recording_minimum_duration_milliseconds
+}
+
+/**
+ * Applies teams' session recording sampling and criteria to snapshots.
+ *
+ * Snapshots of sessions that don't (yet) meet the criteria - a minimum duration, an event or URL triggering the
+ * recording - are buffered in Redis. Once the session meets them, buffered snapshots are released to be stored.
+ * Sessions never meeting them are dropped when their buffer expires.
+ */
+export class SessionRecordingManager {
+    hub: Hub
+
+    constructor(hub: Hub) {
+        this.hub = hub
+    }
+
+    /** Returns the snapshots to store now: none while the session is left out or buffered, possibly many at once. */
+    public async filterSnapshot(
+        team: Team,
+        snapshot: SessionSnapshot,
+        properties: Properties
+    ): Promise<SessionSnapshot[]> {
+        if (!isSessionSampled(snapshot.sessionId, team.session_recording_sample_rate)) {
+            this.hub.statsd?.increment('session_recording.not_sampled', { team_id: team.id.toString() })
+            return []
+        }
+        if (!hasSessionRecordingCriteria(team)) {
+            return [snapshot]
+        }
+        const triggered = isSessionRecordingTrigger(team, '$snapshot', properties)
+        return await this.updateSession(team, snapshot.sessionId, triggered, snapshot)
+    }
+
+    /** Let an event of the session trigger its recording. Returns buffered snapshots to store now, if it did. */
+    public async handleSessionEvent(
+        team: Team,
+        sessionId: string,
+        event: string,
+        properties: Properties
+    ): Promise<SessionSnapshot[]> {
+        if (
+            !hasSessionRecordingTriggers(team) ||
+            !isSessionRecordingTrigger(team, event, properties) ||
+            !isSessionSampled(sessionId, team.session_recording_sample_rate)
+        ) {
+            return []
+        }
+        return await this.updateSession(team, sessionId, true)
+    }
+
+    /** Whether this is the first time this is asked about the session, i.e. its recording is starting. */
+    public async isSessionRecordingStart(teamId: Team['id'], sessionId: string): Promise<boolean> {
+        const startedKey = this.getKey(teamId, sessionId, 'started')
+        const count = await this.hub.db.redisIncr(startedKey)
+        await this.hub.db.redisExpire(startedKey, this.hub.SESSION_RECORDING_BUFFER_TTL_SECONDS)
+        return count === 1
+    }
+
+    private async updateSession(
+        team: Team,
+        sessionId: string,
+        triggered: boolean,
+        snapshot?: SessionSnapshot
+    ): Promise<SessionSnapshot[]> {
+        const [outcome, ...bufferedSnapshots] = (await this.hub.db.redisEval(
+            UPDATE_SESSION_SCRIPT,
+            [this.getKey(team.id, sessionId, 'state'), this.getKey(team.id, sessionId, 'buffer')],
+            [
+                snapshot ? JSON.stringify(snapshot) : '',
+                snapshot ? DateTime.fromISO(snapshot.timestamp).toMillis() : '',
+                triggered ? '1' : '0',
+                hasSessionRecordingTriggers(team) ? '1' : '0',
+                team.session_recording_minimum_duration_milliseconds ?? 0,
+                this.hub.SESSION_RECORDING_BUFFER_TTL_SECONDS,
+            ]
+        )) as [number, ...string[]]
+        if (outcome === 0) {
+            return []
+        }
+        if (outcome === 2) {
+            this.hub.statsd?.increment('session_recording.recorded', { team_id: team.id.toString() })
+        }
+        const releasedSnapshots: SessionSnapshot[] = bufferedSnapshots.map((value) => JSON.parse(value)).reverse()
+        return snapshot ? [...releasedSnapshots, snapshot] : releasedSnapshots
+    }
+
+    private getKey(teamId: Team['id'], sessionId: string, kind: 'state' | 'buffer' | 'started'): string {
+        return `${SESSION_RECORDING_KEY_PREFIX}${teamId}/${sessionId}/${kind}`
+    }
+}
@@ -1,24 +1,47 @@
 import { Properties } from '@posthog/plugin-scaffold'
+import * as Sentry from '@sentry/node'
+import LRU from 'lru-cache'
 
-import { Team, TeamId } from '../../types'
+import { EventSchema, PropertyType, Team, TeamId } from '../../types'
 import { DB } from '../../utils/db/db'
 import { timeoutGuard } from '../../utils/db/utils'
 import { posthog } from '../../utils/posthog'
+import { status } from '../../utils/status'
 import { UUIDT } from '../../utils/utils'
+import { detectPropertyType } from './event-schema'
 
 type TeamCache<T> = Map<TeamId, [T, number]>
 
+/** Redis pub/sub channel on which team IDs whose suppressed distinct IDs changed are published, as JSON. */
+export const SUPPRESSED_DISTINCT_IDS_INVALIDATION_CHANNEL = 'invalidate-suppressed-distinct-ids'
+
+/** How many properties, across teams, to remember the types of for noticing type drift. */
+const OBSERVED_PROPERTY_TYPES_CACHE_SIZE = 100_000
+
 export class TeamManager {
     db: DB
     teamCache: TeamCache<Team | null>
     eventNamesCache: Map<TeamId, Set<string>>
     eventPropertiesCache: Map<TeamId, Set<string>>
+    eventSchemaCache: TeamCache<Map<string, EventSchema>>
+    suppressedDistinctIdsCache: TeamCache<Set<string>>
+    /** Types of values seen per property since the last flush, counted in memory to keep queries off the hot path. */
+    propertyTypeCounts: Map<TeamId, Map<string, Map<PropertyType, number>>>
+    /**
+     * Types of values seen per property by this worker, for noticing type drift as it happens.
+     * Keyed by team ID and property name, and bounded, forgetting the least recently seen properties.
+     */
+    observedPropertyTypes: LRU<string, Set<PropertyType>>
 
     constructor(db: DB) {
         this.db = db
         this.teamCache = new Map()
         this.eventNamesCache = new Map()
         this.eventPropertiesCache = new Map()
+        this.eventSchemaCache = new Map()
+        this.suppressedDistinctIdsCache = new Map()
+        this.propertyTypeCounts = new Map()
+        this.observedPropertyTypes = new LRU({ max: OBSERVED_PROPERTY_TYPES_CACHE_SIZE })
     }
 
     public async fetchTeam(teamId: number): Promise<Team | null> {
@@ -37,6 +60,30 @@ export class TeamManager {
         }
     }
 
+    public async fetchEventSchema(teamId: number, event: string): Promise<EventSchema | null> {
+        let eventSchemas = this.getByAge(this.eventSchemaCache, teamId)
+        if (!eventSchemas) {
+            eventSchemas = new Map((await this.db.fetchEventSchemas(teamId)).map((schema) => [schema.event, schema]))
+            this.eventSchemaCache.set(teamId, [eventSchemas, Date.now()])
+        }
+        return eventSchemas.get(event) ?? null
+    }
+
+    /** Whether events of the distinct ID are to be dropped, as its person was erased. */
+    public async isDistinctIdSuppressed(teamId: number, distinctId: string): Promise<boolean> {
+        let suppressedDistinctIds = this.getByAge(this.suppressedDistinctIdsCache, teamId)
+        if (!suppressedDistinctIds) {
+            suppressedDistinctIds = new Set(await this.db.fetchSuppressedDistinctIds(teamId))
+            this.suppressedDistinctIdsCache.set(teamId, [suppressedDistinctIds, Date.now()])
+        }
+        return suppressedDistinctIds.has(distinctId)
+    }
+
+    /** Forget the team's suppressed distinct IDs, so that they're fetched anew, e.g. after a person got erased. */
+    public invalidateSuppressedDistinctIds(teamId: number): void {
+        this.suppressedDistinctIdsCache.delete(teamId)
+    }
+
     public async updateEventNamesAndProperties(teamId: number, event: string, properties: Properties): Promise<void> {
         const team: Team | null = await this.fetchTeam(teamId)
 
@@ -69,6 +116,7 @@ export class TeamManager {
                 )
                 this.eventPropertiesCache.get(team.id)?.add(key)
             }
+            this.countPropertyType(team.id, key, value)
         }
 
         if (team && !team.ingested_event) {
@@ -98,6 +146,71 @@ export class TeamManager {
         clearTimeout(timeout)
     }
 
+    /**
+     * Write the property type counts gathered since the last flush to `posthog_propertytypecount`.
+     * Counts of teams that fail to be written are kept for the next flush. Never throws.
+     */
+    public async flushPropertyTypeCounts(): Promise<void> {
+        const propertyTypeCounts = this.propertyTypeCounts
+        this.propertyTypeCounts = new Map()
+        for (const [teamId, typeCounts] of propertyTypeCounts) {
+            try {
+                await this.db.addPropertyTypeCounts(teamId, typeCounts)
+            } catch (error) {
+                status.warn(
+                    '⚠️',
+                    `Failed to flush property type counts of team ${teamId}, keeping them for later:`,
+                    error
+                )
+                Sentry.captureException(error, { extra: { teamId } })
+                for (const [key, counts] of typeCounts) {
+                    for (const [propertyType, count] of counts) {
+                        this.addPropertyTypeCount(teamId, key, propertyType, count)
+                    }
+                }
+            }
+        }
+    }
+
+    private countPropertyType(teamId: TeamId, key: string, value: unknown): void {
+        const propertyType = detectPropertyType(value)
+        if (!propertyType) {
+            return
+        }
+
+        this.addPropertyTypeCount(teamId, key, propertyType, 1)
+
+        const observedTypesKey = `${teamId}::${key}`
+        let observedTypes = this.observedPropertyTypes.get(observedTypesKey)
+        if (!observedTypes) {
+            observedTypes = new Set()
+            this.observedPropertyTypes.set(observedTypesKey, observedTypes)
+        }
+        if (!observedTypes.has(propertyType)) {
+            observedTypes.add(propertyType)
+            if (observedTypes.size > 1) {
+                this.db.statsd?.increment('property_type_drift', {
+                    team_id: teamId.toString(),
+                    property_type: propertyType,
+                })
+            }
+        }
+    }
+
+    private addPropertyTypeCount(teamId: TeamId, key: string, propertyType: PropertyType, count: number): void {
+        let teamTypeCounts = this.propertyTypeCounts.get(teamId)
+        if (!teamTypeCounts) {
+            teamTypeCounts = new Map()
+            this.propertyTypeCounts.set(teamId, teamTypeCounts)
+        }
+        let typeCounts = teamTypeCounts.get(key)
+        if (!typeCounts) {
+            typeCounts = new Map()
+            teamTypeCounts.set(key, typeCounts)
+        }
+        typeCounts.set(propertyType, (typeCounts.get(propertyType) ?? 0) + count)
+    }
+
     public async cacheEventNamesAndProperties(teamId: number): Promise<void> {
         let eventNamesCache = this.eventNamesCache.get(teamId)
         if (!eventNamesCache) {
@@ -1,7 +1,7 @@
 import { PluginEvent } from '@posthog/plugin-scaffold/src/types'
 
-import { Action, EnqueuedJob, Hub, PluginTaskType, Team } from '../types'
-import { ingestEvent } from './ingestion/ingest-event'
+import { Action, EnqueuedJob, Hub, Person, PluginTaskType, Team, WebhookDelivery } from '../types'
+import { ingestEvent, ingestEventBatch } from './ingestion/ingest-event'
 import { runOnEvent, runOnSnapshot, runPluginTask, runProcessEvent } from './plugins/run'
 import { loadSchedule, setupPlugins } from './plugins/setup'
 import { teardownPlugins } from './plugins/teardown'
@@ -36,6 +36,21 @@ export const workerTasks: Record<string, TaskRunner> = {
     ingestEvent: async (hub, args: { event: PluginEvent }) => {
         return await ingestEvent(hub, args.event)
     },
+    ingestEventBatch: async (hub, args: { events: PluginEvent[] }) => {
+        return await ingestEventBatch(hub, args.events)
+    },
+    erasePerson: async (hub, args: { teamId: Team['id']; distinctId: string }) => {
+        await hub.eventsProcessor.erasePerson(args.teamId, args.distinctId)
+    },
+    splitPerson: async (hub, args: { teamId: Team['id']; distinctIds: string[] }) => {
+        await hub.eventsProcessor.splitPerson(args.teamId, args.distinctIds)
+    },
+    invalidatePersonCache: (hub, args: { personIds: Person['id'][] }) => {
+        hub.db.personCache?.invalidate(args.personIds)
+    },
+    invalidateSuppressedDistinctIds: (hub, args: { teamId: Team['id'] }) => {
+        hub.teamManager.invalidateSuppressedDistinctIds(args.teamId)
+    },
     reloadPlugins: async (hub) => {
         await setupPlugins(hub)
     },
@@ -51,12 +66,26 @@ export const workerTasks: Record<string, TaskRunner> = {
     dropAction: (hub, args: { teamId: Team['id']; actionId: Action['id'] }) => {
         return hub.actionManager.dropAction(args.teamId, args.actionId)
     },
+    explainActionMatch: async (hub, args: { teamId: Team['id']; event: PluginEvent }) => {
+        const event: PluginEvent = { ...args.event, team_id: args.teamId }
+        const person = await hub.db.fetchPerson(args.teamId, event.distinct_id)
+        return await hub.actionMatcher.explain(event, person)
+    },
+    deliverWebhook: async (hub, args: { delivery: WebhookDelivery }) => {
+        return await hub.hookCannon.deliverWebhook(args.delivery)
+    },
+    checkActionAlerts: async (hub) => {
+        return await hub.actionAlertManager.checkAlerts()
+    },
     teardownPlugins: async (hub) => {
         await teardownPlugins(hub)
     },
     flushKafkaMessages: async (hub) => {
         await hub.kafkaProducer?.flush()
     },
+    flushPropertyTypeCounts: async (hub) => {
+        await hub.teamManager.flushPropertyTypeCounts()
+    },
     sendPluginMetrics: (hub) => {
         hub.pluginMetricsManager.sendPluginMetrics(hub)
     },
@@ -1,4 +1,4 @@
-import { chainToElements, elementsToString } from '../../src/utils/db/utils'
+import { chainToElements, elementsToString, limitProperties } from '../../src/utils/db/utils'
 
 test('elementsToString and chainToElements', () => {
     const elementsString = elementsToString([
@@ -48,3 +48,65 @@ test('elementsToString and chainToElements', () => {
     expect(elements[1].attr_class).toEqual(['btn', 'btn-primary'])
     expect(elements[3].attr_id).toEqual('nested')
 })
+
+describe('limitProperties', () => {
+    const noLimits = {
+        EVENT_PROPERTIES_MAX_BYTES: 0,
+        EVENT_PROPERTIES_MAX_KEYS: 0,
+        EVENT_PROPERTIES_MAX_DEPTH: 0,
+        EVENT_PROPERTY_MAX_STRING_LENGTH: 0,
+    }
+
+    test('keeps properties within limits intact', () => {
+        const properties = { a: 'hello', b: [1, 2, { c: null }], d: { e: { f: true } } }
+
+        expect(
+            limitProperties(properties, {
+                EVENT_PROPERTIES_MAX_BYTES: 1000,
+                EVENT_PROPERTIES_MAX_KEYS: 3,
+                EVENT_PROPERTIES_MAX_DEPTH: 3,
+                EVENT_PROPERTY_MAX_STRING_LENGTH: 5,
+            })
+        ).toEqual([properties, []])
+    })
+
+    test('truncates long strings', () => {
+        expect(
+            limitProperties(
+                { a: 'hello world', b: { c: ['abcdefgh'] } },
+                { ...noLimits, EVENT_PROPERTY_MAX_STRING_LENGTH: 5 }
+            )
+        ).toEqual([{ a: 'hello', b: { c: ['abcde'] } }, ['a', 'b.c.0']])
+    })
+
+    test('drops excess keys', () => {
+        expect(
+            limitProperties(
+                { a: 1, b: 2, c: { d: 3, e: 4, f: 5 }, g: 6 },
+                { ...noLimits, EVENT_PROPERTIES_MAX_KEYS: 3 }
+            )
+        ).toEqual([{ a: 1, b: 2, c: { d: 3, e: 4, f: 5 } }, ['g']])
+        expect(limitProperties({ a: [1, 2, 3, 4] }, { ...noLimits, EVENT_PROPERTIES_MAX_KEYS: 2 })).toEqual([
+            { a: [1, 2] },
+            ['a.2', 'a.3'],
+        ])
+    })
+
+    test('drops values nested too deep', () => {
+        expect(
+            limitProperties(
+                { a: { b: { c: { d: 1 } }, e: 2 }, f: [[1]] },
+                { ...noLimits, EVENT_PROPERTIES_MAX_DEPTH: 2 }
+            )
+        ).toEqual([{ a: { b: {}, e: 2 }, f: [[1]] }, ['a.b.c']])
+    })
+
+    test('drops the largest properties when too big', () => {
+        expect(
+            limitProperties(
+                { small: 'a', large: 'a'.repeat(100), medium: 'a'.repeat(50) },
+                { ...noLimits, EVENT_PROPERTIES_MAX_BYTES: 80 }
+            )
+        ).toEqual([{ small: 'a', medium: 'a'.repeat(50) }, ['large']])
+    })
+})
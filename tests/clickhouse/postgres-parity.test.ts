@@ -84,6 +84,8 @@ describe('postgres parity', () => {
                 properties: {
                     userProp: 'propValue',
                 },
+                properties_last_updated_at: {},
+                properties_last_operation: {},
                 team_id: 2,
                 is_user_id: null,
                 is_identified: true,
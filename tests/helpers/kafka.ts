@@ -2,6 +2,7 @@ import { Kafka, logLevel } from 'kafkajs'
 
 import { defaultConfig, overrideWithEnv } from '../../src/config/config'
 import {
+    KAFKA_ACTION_EVENTS,
     KAFKA_EVENTS,
     KAFKA_EVENTS_PLUGIN_INGESTION,
     KAFKA_PERSON,
@@ -34,6 +35,7 @@ export async function resetKafka(extraServerConfig: Partial<PluginsServerConfig>
         KAFKA_PERSON,
         KAFKA_PERSON_UNIQUE_ID,
         KAFKA_PLUGIN_LOG_ENTRIES,
+        KAFKA_ACTION_EVENTS,
     ])
 
     await new Promise<void>(async (resolve, reject) => {
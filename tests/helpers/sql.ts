@@ -40,6 +40,12 @@ export async function resetTestDatabase(
     } catch {}
 
     await db.query(`
+        DELETE FROM posthog_eventdeadletterqueue;
+        DELETE FROM posthog_eventschema;
+        DELETE FROM posthog_propertytypecount;
+        DELETE FROM posthog_suppresseddistinctid;
+        DELETE FROM posthog_actionalert;
+        DELETE FROM posthog_webhookdeliveryattempt;
         DELETE FROM posthog_personalapikey;
         DELETE FROM posthog_featureflag;
         DELETE FROM posthog_annotation;
@@ -0,0 +1,64 @@
+import { DateTime } from 'luxon'
+
+import { Person } from '../src/types'
+import { PersonCache } from '../src/utils/db/person-cache'
+
+function person(id: number): Person {
+    return {
+        id,
+        team_id: 2,
+        properties: {},
+        properties_last_updated_at: {},
+        properties_last_operation: {},
+        is_user_id: 0,
+        is_identified: false,
+        uuid: `uuid-${id}`,
+        created_at: DateTime.fromISO('2021-01-01T00:00:00.000Z'),
+    }
+}
+
+describe('PersonCache', () => {
+    it('caches persons by team and distinct ID', () => {
+        const cache = new PersonCache(10, 60)
+        cache.set(2, 'a', person(1))
+
+        expect(cache.get(2, 'a')).toEqual(person(1))
+        expect(cache.get(3, 'a')).toEqual(undefined)
+        expect(cache.get(2, 'b')).toEqual(undefined)
+    })
+
+    it('copies persons in and out', () => {
+        const cache = new PersonCache(10, 60)
+        const cachedPerson = person(1)
+        cache.set(2, 'a', cachedPerson)
+        cachedPerson.properties.plan = 'pro'
+        cache.get(2, 'a')!.properties.plan = 'free'
+
+        expect(cache.get(2, 'a')).toEqual(person(1))
+    })
+
+    it('invalidates all distinct IDs of a person', () => {
+        const cache = new PersonCache(10, 60)
+        cache.set(2, 'a', person(1))
+        cache.set(2, 'b', person(1))
+        cache.set(2, 'c', person(2))
+
+        cache.invalidate([1])
+
+        expect(cache.get(2, 'a')).toEqual(undefined)
+        expect(cache.get(2, 'b')).toEqual(undefined)
+        expect(cache.get(2, 'c')).toEqual(person(2))
+        expect(cache.keysByPersonId.has(1)).toEqual(false)
+    })
+
+    it('forgets evicted and replaced entries', () => {
+        const cache = new PersonCache(2, 60)
+        cache.set(2, 'a', person(1))
+        cache.set(2, 'b', person(2))
+        cache.set(2, 'c', person(3))
+        cache.set(2, 'b', person(4))
+
+        expect(cache.get(2, 'a')).toEqual(undefined)
+        expect(Array.from(cache.keysByPersonId.keys()).sort()).toEqual([3, 4])
+    })
+})
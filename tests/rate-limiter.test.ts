@@ -0,0 +1,123 @@
+import { PluginEvent } from '@posthog/plugin-scaffold'
+
+import { defaultConfig } from '../src/config/config'
+import { DELAYED_EVENT_JOB_TYPE, IngestionRateLimiter } from '../src/main/ingestion-queues/rate-limiter'
+import { Hub, PluginsServerConfig } from '../src/types'
+
+jest.mock('../src/utils/status')
+
+describe('IngestionRateLimiter', () => {
+    let now: number
+    let enqueue: jest.Mock
+    let increment: jest.Mock
+
+    function createRateLimiter(config: Partial<PluginsServerConfig>): IngestionRateLimiter {
+        const hub = {
+            ...defaultConfig,
+            ...config,
+            jobQueueManager: { enqueue },
+            statsd: { increment },
+            teamManager: { fetchTeam: (teamId: number) => Promise.resolve({ id: teamId, organization_id: 'org' }) },
+        } as unknown as Hub
+        return new IngestionRateLimiter(hub)
+    }
+
+    function event(teamId: number): PluginEvent {
+        return { team_id: teamId, event: 'xyz', distinct_id: 'abc' } as unknown as PluginEvent
+    }
+
+    async function countAllowed(rateLimiter: IngestionRateLimiter, teamId: number, count: number): Promise<number> {
+        let allowed = 0
+        for (let i = 0; i < count; i++) {
+            if (await rateLimiter.allowEvent(event(teamId))) {
+                allowed++
+            }
+        }
+        return allowed
+    }
+
+    beforeEach(() => {
+        now = 1_600_000_000_000
+        jest.spyOn(Date, 'now').mockImplementation(() => now)
+        enqueue = jest.fn()
+        increment = jest.fn()
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('allows everything without limits', async () => {
+        const rateLimiter = createRateLimiter({})
+
+        expect(await countAllowed(rateLimiter, 2, 1000)).toEqual(1000)
+        expect(increment).not.toHaveBeenCalled()
+    })
+
+    it('limits each team separately and refills over time', async () => {
+        const rateLimiter = createRateLimiter({
+            INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 10,
+            INGESTION_RATE_LIMIT_BURST: 20,
+        })
+
+        expect(await countAllowed(rateLimiter, 2, 30)).toEqual(20)
+        expect(await countAllowed(rateLimiter, 3, 30)).toEqual(20)
+        expect(increment).toHaveBeenCalledWith('kafka_queue.rate_limited', { team_id: '2', action: 'drop' })
+
+        now += 500
+        expect(await countAllowed(rateLimiter, 2, 30)).toEqual(5)
+    })
+
+    it('applies team and organization overrides', async () => {
+        const rateLimiter = createRateLimiter({
+            INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 10,
+            INGESTION_RATE_LIMIT_OVERRIDES: JSON.stringify({
+                'team:2': { eventsPerSecond: 100 },
+                'organization:org': { eventsPerSecond: 5 },
+            }),
+        })
+
+        expect(await countAllowed(rateLimiter, 2, 200)).toEqual(100)
+        // teams 3 and 4 share the organization's bucket
+        expect(await countAllowed(rateLimiter, 3, 3)).toEqual(3)
+        expect(await countAllowed(rateLimiter, 4, 3)).toEqual(2)
+    })
+
+    it('delays events over the limit through the job queue', async () => {
+        const rateLimiter = createRateLimiter({
+            INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 1,
+            INGESTION_RATE_LIMIT_ACTION: 'delay',
+            INGESTION_RATE_LIMIT_DELAY_SECONDS: 30,
+        })
+
+        expect(await countAllowed(rateLimiter, 2, 2)).toEqual(1)
+        expect(enqueue).toHaveBeenCalledWith({
+            type: DELAYED_EVENT_JOB_TYPE,
+            payload: { event: event(2) },
+            timestamp: now + 30_000,
+            pluginConfigId: 0,
+            pluginConfigTeam: 2,
+        })
+    })
+
+    it('drops events over the limit if they cannot be delayed', async () => {
+        enqueue.mockRejectedValue(new Error('Job queue is down'))
+        const rateLimiter = createRateLimiter({
+            INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 1,
+            INGESTION_RATE_LIMIT_ACTION: 'delay',
+        })
+
+        expect(await countAllowed(rateLimiter, 2, 2)).toEqual(1)
+        expect(increment).toHaveBeenCalledWith('kafka_queue.rate_limited_delay_failed', { team_id: '2' })
+    })
+
+    it('only counts events over the limit if configured', async () => {
+        const rateLimiter = createRateLimiter({
+            INGESTION_RATE_LIMIT_EVENTS_PER_SECOND: 1,
+            INGESTION_RATE_LIMIT_ACTION: 'count',
+        })
+
+        expect(await countAllowed(rateLimiter, 2, 3)).toEqual(3)
+        expect(increment).toHaveBeenCalledTimes(2)
+    })
+})
@@ -1,6 +1,8 @@
+import { KAFKA_ACTION_EVENTS } from '../../src/config/kafka-topics'
 import { Hub, PropertyOperator } from '../../src/types'
 import { DB } from '../../src/utils/db/db'
 import { createHub } from '../../src/utils/db/hub'
+import { KafkaProducerWrapper } from '../../src/utils/db/kafka-producer-wrapper'
 import { ActionManager } from '../../src/worker/ingestion/action-manager'
 import { resetTestDatabase } from '../helpers/sql'
 
@@ -56,4 +58,27 @@ describe('DB', () => {
             },
         })
     })
+
+    test('registerClickHouseActionMatch', async () => {
+        const queueMessage = jest.fn()
+        db.kafkaProducer = { queueMessage } as unknown as KafkaProducerWrapper
+        const actions = Object.values((await db.fetchAllActionsGroupedByTeam())[TEAM_ID])
+
+        await db.registerClickHouseActionMatch(
+            { uuid: 'event-uuid', timestamp: '2021-09-01 12:00:00.000000', teamId: TEAM_ID },
+            actions
+        )
+
+        expect(queueMessage).toHaveBeenCalledWith({
+            topic: KAFKA_ACTION_EVENTS,
+            messages: [{ key: 'event-uuid', value: expect.any(Buffer) }],
+        })
+        expect(JSON.parse(queueMessage.mock.calls[0][0].messages[0].value.toString())).toEqual({
+            event_uuid: 'event-uuid',
+            action_id: ACTION_ID,
+            team_id: TEAM_ID,
+            timestamp: '2021-09-01 12:00:00.000000',
+            created_at: expect.any(String),
+        })
+    })
 })
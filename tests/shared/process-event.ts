@@ -3,12 +3,29 @@ import * as IORedis from 'ioredis'
 import { DateTime } from 'luxon'
 import { performance } from 'perf_hooks'
 
-import { Database, Event, Hub, LogLevel, Person, PluginsServerConfig, Team } from '../../src/types'
+import {
+    Database,
+    Event,
+    Hub,
+    IngestionStage,
+    LogLevel,
+    Person,
+    PluginsServerConfig,
+    PropertyType,
+    SchemaEnforcement,
+    Team,
+} from '../../src/types'
 import { createHub } from '../../src/utils/db/hub'
+import { PersonCache } from '../../src/utils/db/person-cache'
 import { hashElements } from '../../src/utils/db/utils'
 import { posthog } from '../../src/utils/posthog'
 import { delay, UUIDT } from '../../src/utils/utils'
 import { EventProcessingResult, EventsProcessor } from '../../src/worker/ingestion/process-event'
+import {
+    compressAndChunkSnapshot,
+    decompressSnapshotChunks,
+    SnapshotChunk,
+} from '../../src/worker/ingestion/session-recording'
 import { createUserTeamAndOrganization, getFirstTeam, getTeams, onQuery, resetTestDatabase } from '../helpers/sql'
 
 jest.mock('../../src/utils/status')
@@ -173,7 +190,7 @@ export const createProcessEventTests = (
         expect((await hub.db.fetchPersons()).length).toEqual(2)
         const [person0, person1] = await hub.db.fetchPersons()
 
-        await eventsProcessor.mergePeople(person0, person1)
+        await eventsProcessor.mergePeople(person0, person1, 'person_0')
 
         if (database === 'clickhouse') {
             await delayUntilEventIngested(async () =>
@@ -628,7 +645,7 @@ export const createProcessEventTests = (
             new UUIDT().toString()
         )
 
-        expect((await hub.db.fetchEvents()).length).toBe(1)
+        expect((await hub.db.fetchEvents()).length).toBe(2) // including $person_merged
         expect(await hub.db.fetchDistinctIdValues((await hub.db.fetchPersons())[0])).toEqual([
             'old_distinct_id',
             'new_distinct_id',
@@ -652,7 +669,7 @@ export const createProcessEventTests = (
             new UUIDT().toString()
         )
 
-        expect((await hub.db.fetchEvents()).length).toBe(1)
+        expect((await hub.db.fetchEvents()).length).toBe(2) // including $person_merged
         expect(await hub.db.fetchDistinctIdValues((await hub.db.fetchPersons())[0])).toEqual([
             'old_distinct_id',
             'new_distinct_id',
@@ -677,7 +694,7 @@ export const createProcessEventTests = (
         )
 
         expect((await hub.db.fetchPersons()).length).toBe(1)
-        expect((await hub.db.fetchEvents()).length).toBe(1)
+        expect((await hub.db.fetchEvents()).length).toBe(2) // including $person_merged
         expect(await hub.db.fetchDistinctIdValues((await hub.db.fetchPersons())[0])).toEqual([
             'old_distinct_id',
             'new_distinct_id',
@@ -749,7 +766,7 @@ export const createProcessEventTests = (
             new UUIDT().toString()
         )
 
-        expect((await hub.db.fetchEvents()).length).toBe(1)
+        expect((await hub.db.fetchEvents()).length).toBe(2) // including $person_merged
         expect(await hub.db.fetchDistinctIdValues((await hub.db.fetchPersons())[0])).toEqual([
             'old_distinct_id',
             'new_distinct_id',
@@ -818,7 +835,7 @@ export const createProcessEventTests = (
             new UUIDT().toString()
         )
 
-        expect((await hub.db.fetchEvents()).length).toBe(1)
+        expect((await hub.db.fetchEvents()).length).toBe(2) // including $person_merged
         expect((await hub.db.fetchPersons()).length).toBe(1)
         const [person] = await hub.db.fetchPersons()
         expect(await hub.db.fetchDistinctIdValues(person)).toEqual(['old_distinct_id', 'new_distinct_id'])
@@ -941,6 +958,72 @@ export const createProcessEventTests = (
         expect(event.snapshot_data).toEqual({ timestamp: 123 })
     })
 
+    test('snapshot event stored in compressed chunks', async () => {
+        hub.SESSION_RECORDING_CHUNK_SIZE = 20
+        const snapshotData = { type: 2, data: { source: 'x'.repeat(1000) }, timestamp: 123 }
+        expect(compressAndChunkSnapshot(snapshotData, 20).length).toBeGreaterThan(1)
+        const chunkCount = database === 'clickhouse' ? compressAndChunkSnapshot(snapshotData, 20).length : 1
+
+        await eventsProcessor.processEvent(
+            'some-id',
+            '',
+            '',
+            {
+                event: '$snapshot',
+                properties: { $session_id: 'abcf-efg', $snapshot_data: snapshotData },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+        await delayUntilEventIngested(() => hub.db.fetchSessionRecordingEvents(), chunkCount)
+
+        const sessionRecordingEvents = await hub.db.fetchSessionRecordingEvents()
+        expect(sessionRecordingEvents.length).toBe(chunkCount)
+        if (database === 'clickhouse') {
+            const chunks = sessionRecordingEvents.map((event) => event.snapshot_data as any as SnapshotChunk)
+            expect(new Set(chunks.map((chunk) => chunk.chunk_id)).size).toEqual(1)
+            expect(chunks.every((chunk) => chunk.has_full_snapshot && chunk.data.length <= 20)).toEqual(true)
+            expect(decompressSnapshotChunks(chunks)).toEqual(snapshotData)
+        } else {
+            // Postgres has no message size limit, so snapshots are stored as is
+            expect(sessionRecordingEvents[0].snapshot_data).toEqual(snapshotData)
+        }
+    })
+
+    test('snapshots are buffered until the session reaches its minimum duration', async () => {
+        hub.teamManager.teamCache.set(team.id, [
+            { ...team, session_recording_minimum_duration_milliseconds: 10_000 },
+            Date.now(),
+        ])
+        const sessionId = new UUIDT().toString()
+        const processSnapshot = (seconds: number) =>
+            eventsProcessor.processEvent(
+                'some-id',
+                '',
+                '',
+                {
+                    event: '$snapshot',
+                    properties: { $session_id: sessionId, $snapshot_data: { timestamp: seconds } },
+                } as any as PluginEvent,
+                team.id,
+                now.plus({ seconds }),
+                null,
+                new UUIDT().toString()
+            )
+
+        await processSnapshot(0)
+        await processSnapshot(5)
+        expect(await hub.db.fetchSessionRecordingEvents()).toEqual([])
+
+        await processSnapshot(10)
+        await delayUntilEventIngested(() => hub.db.fetchSessionRecordingEvents(), 3)
+        const sessionRecordingEvents = await hub.db.fetchSessionRecordingEvents()
+        const timestamps = sessionRecordingEvents.map((event) => (event.snapshot_data as any).timestamp)
+        expect(timestamps.sort((a, b) => a - b)).toEqual([0, 5, 10])
+    })
+
     test('identify set', async () => {
         await createPerson(hub, team, ['distinct_id'])
 
@@ -1674,5 +1757,583 @@ export const createProcessEventTests = (
         expect(person.properties).toEqual({ a: 1, b: 2, c: 3, d: 4 })
     })
 
+    test('events with an already ingested uuid are skipped', async () => {
+        hub.EVENT_DEDUPLICATION_WINDOW_SECONDS = 3600
+        const eventUuid = new UUIDT().toString()
+        const event = {
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: 'distinct_id', $set: { a: 1 } },
+        } as any as PluginEvent
+
+        const result = await processEvent('distinct_id', '', '', event, team.id, now, now, eventUuid)
+        expect(result).toBeTruthy()
+
+        // calling the processor directly, as the helper would wait for a new event to show up
+        const duplicateResult = await eventsProcessor.processEvent(
+            'distinct_id',
+            '',
+            '',
+            { ...event, properties: { ...event.properties, $set: { a: 2 } } },
+            team.id,
+            now,
+            now,
+            eventUuid
+        )
+        expect(duplicateResult).toBeUndefined()
+
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ a: 1 })
+    })
+
+    test('events that failed processing can be retried', async () => {
+        hub.EVENT_DEDUPLICATION_WINDOW_SECONDS = 3600
+        const eventUuid = new UUIDT().toString()
+        const event = {
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: 'distinct_id' },
+        } as any as PluginEvent
+        jest.spyOn(hub.teamManager, 'fetchTeam').mockRejectedValueOnce(new Error('Postgres is down'))
+
+        await expect(
+            eventsProcessor.processEvent('distinct_id', '', '', event, team.id, now, now, eventUuid)
+        ).rejects.toThrow('Postgres is down')
+        expect(await processEvent('distinct_id', '', '', event, team.id, now, now, eventUuid)).toBeTruthy()
+
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+    })
+
+    test('events that failed processing after updating person properties do not update them again on retry', async () => {
+        hub.EVENT_DEDUPLICATION_WINDOW_SECONDS = 3600
+        await createPerson(hub, team, ['distinct_id'], { count: 1 })
+        const eventUuid = new UUIDT().toString()
+        const event = {
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: 'distinct_id', $increment: { count: 1 } },
+        } as any as PluginEvent
+        jest.spyOn(eventsProcessor as any, 'createEvent').mockRejectedValueOnce(new Error('Kafka is down'))
+
+        await expect(
+            eventsProcessor.processEvent('distinct_id', '', '', event, team.id, now, now, eventUuid)
+        ).rejects.toThrow('Kafka is down')
+        expect(await processEvent('distinct_id', '', '', event, team.id, now, now, eventUuid)).toBeTruthy()
+
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ count: 2 })
+    })
+
+    test('processEventBatch coalesces person updates', async () => {
+        await createPerson(hub, team, ['distinct_id'], { count: 1 })
+        const makeEvent = (distinctId: string, properties: Record<string, any>): PluginEvent => ({
+            distinct_id: distinctId,
+            ip: null,
+            site_url: '',
+            team_id: team.id,
+            now: now.toISO(),
+            sent_at: now.toISO(),
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: distinctId, ...properties },
+            uuid: new UUIDT().toString(),
+        })
+        const events = [
+            makeEvent('distinct_id', { $set: { a: 1, b: 1 }, $increment: { count: 1 } }),
+            makeEvent('new_distinct_id', { $set_once: { c: 1 } }),
+            makeEvent('distinct_id', { $set: { a: 2 }, $set_once: { b: 2, d: 2 }, $increment: { count: 2 } }),
+            makeEvent('new_distinct_id', { $set_once: { c: 2 } }),
+        ]
+        const updatePersonSpy = jest.spyOn(hub.db, 'updatePerson')
+        const updatePersonAtomicallySpy = jest.spyOn(hub.db, 'updatePersonAtomically')
+
+        const results = await eventsProcessor.processEventBatch(events)
+
+        expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled', 'fulfilled'])
+        expect(updatePersonSpy).toHaveBeenCalledTimes(1)
+        expect(updatePersonAtomicallySpy).toHaveBeenCalledTimes(1)
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchEvents(), 4)
+        }
+        expect((await hub.db.fetchEvents()).length).toEqual(4)
+
+        const persons = await hub.db.fetchPersons()
+        expect(persons.length).toEqual(2)
+        const personsByDistinctId = Object.fromEntries(
+            await Promise.all(persons.map(async (person) => [(await hub.db.fetchDistinctIdValues(person))[0], person]))
+        )
+        expect(personsByDistinctId['distinct_id'].properties).toEqual({ a: 2, b: 1, d: 2, count: 4 })
+        expect(personsByDistinctId['new_distinct_id'].properties).toEqual({ c: 1 })
+    })
+
+    test('processEventBatch does not lose person updates of distinct IDs of the same person', async () => {
+        await createPerson(hub, team, ['distinct_id', 'other_distinct_id'], { count: 1 })
+        const makeEvent = (distinctId: string, properties: Record<string, any>): PluginEvent => ({
+            distinct_id: distinctId,
+            ip: null,
+            site_url: '',
+            team_id: team.id,
+            now: now.toISO(),
+            sent_at: now.toISO(),
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: distinctId, ...properties },
+            uuid: new UUIDT().toString(),
+        })
+
+        const results = await eventsProcessor.processEventBatch([
+            makeEvent('distinct_id', { $set: { a: 1 }, $increment: { count: 1 } }),
+            makeEvent('other_distinct_id', { $set: { b: 2 }, $increment: { count: 2 } }),
+        ])
+
+        expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled'])
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ a: 1, b: 2, count: 4 })
+    })
+
+    test('processEventBatch only coalesces person updates of accepted events', async () => {
+        hub.EVENT_MAX_AGE_SECONDS = 3600
+        hub.EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING = 'reject'
+        const rightNow = DateTime.utc()
+        const makeEvent = (timestamp: DateTime, properties: Record<string, any>): PluginEvent => ({
+            distinct_id: 'distinct_id',
+            ip: null,
+            site_url: '',
+            team_id: team.id,
+            now: rightNow.toISO(),
+            sent_at: rightNow.toISO(),
+            timestamp: timestamp.toISO(),
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: 'distinct_id', ...properties },
+            uuid: new UUIDT().toString(),
+        })
+
+        const results = await eventsProcessor.processEventBatch([
+            makeEvent(rightNow, { $set: { a: 1 } }),
+            makeEvent(rightNow.minus({ days: 2 }), { $set: { a: 2, b: 2 } }),
+        ])
+
+        expect(results).toEqual([
+            { status: 'fulfilled', value: expect.anything() },
+            { status: 'fulfilled', value: undefined },
+        ])
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchEvents())
+        }
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ a: 1 })
+    })
+
+    test('processEventBatch does not apply person updates again when retrying a failed event', async () => {
+        hub.EVENT_DEDUPLICATION_WINDOW_SECONDS = 3600
+        await createPerson(hub, team, ['distinct_id'], { count: 1 })
+        const event: PluginEvent = {
+            distinct_id: 'distinct_id',
+            ip: null,
+            site_url: '',
+            team_id: team.id,
+            now: now.toISO(),
+            sent_at: now.toISO(),
+            event: 'some_event',
+            properties: { token: team.api_token, distinct_id: 'distinct_id', $increment: { count: 1 } },
+            uuid: new UUIDT().toString(),
+        }
+        jest.spyOn(hub.teamManager, 'fetchTeam').mockRejectedValueOnce(new Error('Postgres is down'))
+
+        const [failedResult] = await eventsProcessor.processEventBatch([event])
+        expect(failedResult.status).toEqual('rejected')
+        const [retriedResult] = await eventsProcessor.processEventBatch([event])
+        expect(retriedResult.status).toEqual('fulfilled')
+
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchEvents())
+        }
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ count: 2 })
+    })
+
+    test('timestamps too far in the future are clamped to now', async () => {
+        hub.EVENT_MAX_FUTURE_DRIFT_SECONDS = 3600
+        const rightNow = DateTime.utc()
+        const nextYear = rightNow.plus({ years: 1 })
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: '$pageview',
+                timestamp: nextYear.toISO(),
+                properties: { distinct_id: 'distinct_id', token: team.api_token },
+            } as any as PluginEvent,
+            team.id,
+            rightNow,
+            null,
+            new UUIDT().toString()
+        )
+
+        const [event] = await hub.db.fetchEvents()
+        expect(Math.abs(rightNow.diff(DateTime.fromISO(event.timestamp), 'seconds').seconds)).toBeLessThan(1)
+        expect(event.properties['$original_timestamp']).toEqual(nextYear.toISO())
+    })
+
+    test('timestamps too far in the past are rejected if configured', async () => {
+        hub.EVENT_MAX_AGE_SECONDS = 3600
+        hub.EVENT_OUT_OF_BOUNDS_TIMESTAMP_HANDLING = 'reject'
+        const rightNow = DateTime.utc()
+
+        const result = await eventsProcessor.processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: '$pageview',
+                timestamp: rightNow.minus({ days: 2 }).toISO(),
+                properties: { distinct_id: 'distinct_id', token: team.api_token },
+            } as any as PluginEvent,
+            team.id,
+            rightNow,
+            null,
+            new UUIDT().toString()
+        )
+
+        expect(result).toBeUndefined()
+        expect(await hub.db.fetchEvents()).toEqual([])
+        const [deadLetterQueueEvent] = await hub.db.fetchDeadLetterQueueEvents()
+        expect(deadLetterQueueEvent.error_location).toEqual(IngestionStage.TimestampValidation)
+        expect(deadLetterQueueEvent.error).toContain('too far in the past')
+    })
+
+    test('properties over the limits are dropped and listed', async () => {
+        hub.EVENT_PROPERTY_MAX_STRING_LENGTH = 10
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: 'some_event',
+                properties: { distinct_id: 'distinct_id', long: 'a'.repeat(20), short: 'a' },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        const [event] = await hub.db.fetchEvents()
+        expect(event.properties['long']).toEqual('a'.repeat(10))
+        expect(event.properties['short']).toEqual('a')
+        expect(event.properties['$dropped_properties']).toEqual(['long'])
+    })
+
+    test('event schema violations are tagged', async () => {
+        hub.EVENT_SCHEMA_VALIDATION = true
+        await hub.db.postgresQuery(
+            'INSERT INTO posthog_eventschema (id, team_id, event, properties, enforcement) VALUES ($1, $2, $3, $4, $5)',
+            [
+                new UUIDT().toString(),
+                team.id,
+                'purchase',
+                JSON.stringify({ price: PropertyType.Numeric, plan: PropertyType.String }),
+                SchemaEnforcement.Tag,
+            ],
+            'testTag'
+        )
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: 'purchase',
+                properties: { distinct_id: 'distinct_id', token: team.api_token, price: '9.99', plan: 'pro' },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        const [event] = await hub.db.fetchEvents()
+        expect(event.properties['$schema_violations']).toEqual(['price'])
+    })
+
+    test('alias merges properties by when they were last written', async () => {
+        for (const [distinctId, timestamp, plan] of [
+            ['old_distinct_id', '2021-01-02T00:00:00Z', 'pro'],
+            ['new_distinct_id', '2021-01-01T00:00:00Z', 'free'],
+        ]) {
+            await processEvent(
+                distinctId,
+                '',
+                '',
+                {
+                    event: 'plan selected',
+                    timestamp,
+                    properties: { distinct_id: distinctId, $set: { plan }, $set_once: { first_plan: plan } },
+                } as any as PluginEvent,
+                team.id,
+                now,
+                null,
+                new UUIDT().toString()
+            )
+        }
+
+        await processEvent(
+            'new_distinct_id',
+            '',
+            '',
+            {
+                event: '$create_alias',
+                properties: { distinct_id: 'new_distinct_id', token: team.api_token, alias: 'old_distinct_id' },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        const [person] = await hub.db.fetchPersons()
+        // the newer $set wins, while the older $set_once does
+        expect(person.properties).toEqual({ plan: 'pro', first_plan: 'free' })
+        expect(person.properties_last_operation).toEqual({ plan: 'set', first_plan: 'set_once' })
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchEvents(), 4)
+        }
+        const mergeEvent = ((await hub.db.fetchEvents()) as Event[]).find((event) => event.event === '$person_merged')!
+        expect(mergeEvent.distinct_id).toEqual('new_distinct_id')
+        expect(mergeEvent.properties).toEqual({
+            $merged_person_uuid: expect.any(String),
+            $merged_into_person_uuid: person.uuid,
+            $merged_distinct_ids: ['old_distinct_id'],
+            $properties_from_merged_person: ['plan'],
+            $discarded_properties: { plan: 'free', first_plan: 'pro' },
+        })
+    })
+
+    test('person property operations', async () => {
+        await createPerson(hub, team, ['distinct_id'], { a: 1, tags: ['x'], score: 5 })
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: 'some_event',
+                properties: {
+                    distinct_id: 'distinct_id',
+                    $set: { b: 2 },
+                    $unset: ['a'],
+                    $union: { tags: ['x', 'y'] },
+                    $max: { score: 3 },
+                    $min: { score: 4 },
+                },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        const [person] = await hub.db.fetchPersons()
+        expect(person.properties).toEqual({ b: 2, tags: ['x', 'y'], score: 4 })
+        expect(Object.keys(person.properties_last_updated_at!).sort()).toEqual(['b', 'score', 'tags'])
+        if (database === 'clickhouse') {
+            const fetchUpdatedPersons = async () =>
+                (await hub.db.fetchPersons(Database.ClickHouse)).filter(
+                    (clickHousePerson) => JSON.parse(clickHousePerson.properties).score === 4
+                )
+            await delayUntilEventIngested(fetchUpdatedPersons)
+            const [clickHousePerson] = await fetchUpdatedPersons()
+            expect(JSON.parse(clickHousePerson.properties)).toEqual({ b: 2, tags: ['x', 'y'], score: 4 })
+        }
+    })
+
+    test('erasing a person drops later events', async () => {
+        const [distinctId, otherDistinctId] = ['distinct_id', 'other_distinct_id']
+        const person = await createPerson(hub, team, [distinctId, otherDistinctId], { email: 'x@example.com' })
+        await hub.db.addPersonToCohort((await hub.db.createCohort({ team_id: team.id })).id, person.id)
+
+        // the cached list of suppressed distinct IDs must be picked up anew
+        expect(await hub.teamManager.isDistinctIdSuppressed(team.id, distinctId)).toEqual(false)
+        await eventsProcessor.erasePerson(team.id, otherDistinctId)
+        for (const eventDistinctId of [distinctId, otherDistinctId]) {
+            expect(
+                await eventsProcessor.processEvent(
+                    eventDistinctId,
+                    '',
+                    '',
+                    {
+                        event: 'some_event',
+                        properties: { distinct_id: eventDistinctId, $set: { a: 1 } },
+                    } as any as PluginEvent,
+                    team.id,
+                    now,
+                    now,
+                    new UUIDT().toString()
+                )
+            ).toBeUndefined()
+        }
+
+        expect(await hub.db.fetchPersons()).toEqual([])
+        expect(await hub.db.fetchEvents()).toEqual([])
+        expect(await hub.db.fetchSuppressedDistinctIds(team.id)).toEqual([distinctId, otherDistinctId])
+        expect((await hub.db.postgresQuery('SELECT * FROM posthog_cohortpeople', undefined, 'testTag')).rows).toEqual(
+            []
+        )
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(async () =>
+                (await hub.db.fetchDistinctIdValues(person, Database.ClickHouse)).length === 0 ? [1] : []
+            )
+            expect(await hub.db.fetchPersons(Database.ClickHouse)).toEqual([])
+            expect(await hub.db.fetchDistinctIdValues(person, Database.ClickHouse)).toEqual([])
+        }
+    })
+
+    test('$delete_person events are captured like any other event', async () => {
+        await createPerson(hub, team, ['distinct_id'], { email: 'x@example.com' })
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            { event: '$delete_person', properties: { distinct_id: 'distinct_id' } } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        expect((await hub.db.fetchPersons()).length).toEqual(1)
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+        expect(await hub.db.fetchSuppressedDistinctIds(team.id)).toEqual([])
+    })
+
+    test('split person', async () => {
+        const person = await createPerson(hub, team, ['device', 'wrong_user', 'wrong_user_2'], {
+            email: 'x@example.com',
+        })
+
+        const newPerson = await eventsProcessor.splitPerson(team.id, ['wrong_user', 'wrong_user_2'])
+
+        expect(await hub.db.fetchDistinctIdValues(person)).toEqual(['device'])
+        expect(await hub.db.fetchDistinctIdValues(newPerson)).toEqual(['wrong_user', 'wrong_user_2'])
+        expect(newPerson.properties).toEqual({})
+        expect((await hub.db.fetchPerson(team.id, 'device'))!.properties).toEqual({ email: 'x@example.com' })
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchEvents())
+        }
+        const [splitEvent] = await hub.db.fetchEvents()
+        expect(splitEvent.event).toEqual('$person_split')
+        expect(splitEvent.properties).toEqual({
+            $split_from_person_uuid: person.uuid,
+            $split_into_person_uuid: newPerson.uuid,
+            $split_distinct_ids: ['wrong_user', 'wrong_user_2'],
+        })
+        if (database === 'clickhouse') {
+            await delayUntilEventIngested(() => hub.db.fetchDistinctIdValues(newPerson, Database.ClickHouse), 2)
+            expect(await hub.db.fetchDistinctIdValues(person, Database.ClickHouse)).toEqual(['device'])
+        }
+
+        await expect(eventsProcessor.splitPerson(team.id, ['device'])).rejects.toThrow(
+            `Can't split all distinct IDs off person ${person.uuid}`
+        )
+    })
+
+    test('alias refuses to merge two identified persons if configured', async () => {
+        hub.PERSON_MERGE_REFUSE_IDENTIFIED = true
+        await hub.db.postgresQuery(
+            'UPDATE posthog_team SET slack_incoming_webhook = $1 WHERE id = $2',
+            ['https://hooks.slack.com/services/webhook', team.id],
+            'testTag'
+        )
+        await redis.del(`@posthog-plugin-server/alias-refusal-notice/${team.id}`)
+        const postTeamNotice = jest.spyOn(hub.hookCannon, 'postTeamNotice').mockResolvedValue(true)
+        for (const distinctId of ['old_distinct_id', 'other_old_distinct_id', 'new_distinct_id']) {
+            await hub.db.createPerson(DateTime.utc(), {}, team.id, null, true, new UUIDT().toString(), [distinctId])
+        }
+
+        for (const alias of ['old_distinct_id', 'other_old_distinct_id']) {
+            await processEvent(
+                'new_distinct_id',
+                '',
+                '',
+                {
+                    event: '$create_alias',
+                    properties: { distinct_id: 'new_distinct_id', token: team.api_token, alias },
+                } as any as PluginEvent,
+                team.id,
+                now,
+                now,
+                new UUIDT().toString()
+            )
+        }
+
+        expect((await hub.db.fetchPersons()).length).toBe(3)
+        // the team is notified of the first refusal only
+        expect(postTeamNotice).toHaveBeenCalledTimes(1)
+        expect(postTeamNotice).toHaveBeenCalledWith(
+            expect.objectContaining({ id: team.id }),
+            expect.stringContaining(
+                'Refusing to alias "old_distinct_id" to "new_distinct_id": both persons are identified'
+            )
+        )
+        expect(((await hub.db.fetchEvents()) as Event[]).map((event) => event.event)).toEqual([
+            '$create_alias',
+            '$create_alias',
+        ])
+    })
+
+    test('alias refuses to go over the distinct ID limit', async () => {
+        hub.PERSON_MAX_DISTINCT_IDS = 2
+        const person = await createPerson(hub, team, ['distinct_id', 'distinct_id_2'])
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: '$create_alias',
+                properties: { distinct_id: 'distinct_id', token: team.api_token, alias: 'distinct_id_3' },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        expect(await hub.db.fetchDistinctIdValues(person)).toEqual(['distinct_id', 'distinct_id_2'])
+        expect(await hub.db.fetchPerson(team.id, 'distinct_id_3')).toBeUndefined()
+    })
+
+    test('person cache is invalidated by person updates', async () => {
+        hub.db.personCache = new PersonCache(100, 60)
+        await createPerson(hub, team, ['distinct_id'], { a: 1 })
+        const postgresQuery = jest.spyOn(hub.db, 'postgresQuery')
+        const countFetchPersonQueries = () =>
+            postgresQuery.mock.calls.filter(([, , tag]) => tag === 'fetchPerson').length
+
+        expect((await hub.db.fetchPerson(team.id, 'distinct_id'))!.properties).toEqual({ a: 1 })
+        expect((await hub.db.fetchPerson(team.id, 'distinct_id'))!.properties).toEqual({ a: 1 })
+        expect(countFetchPersonQueries()).toEqual(1)
+
+        await processEvent(
+            'distinct_id',
+            '',
+            '',
+            {
+                event: 'some_event',
+                properties: { token: team.api_token, distinct_id: 'distinct_id', $set: { a: 2 } },
+            } as any as PluginEvent,
+            team.id,
+            now,
+            now,
+            new UUIDT().toString()
+        )
+
+        expect((await hub.db.fetchPerson(team.id, 'distinct_id'))!.properties).toEqual({ a: 2 })
+        expect(countFetchPersonQueries()).toEqual(2)
+    })
+
     return returned
 }
@@ -0,0 +1,162 @@
+import { DateTime } from 'luxon'
+import fetch from 'node-fetch'
+import { mocked } from 'ts-jest/utils'
+
+import { ActionAlert, ActionAlertType, Hub } from '../../../src/types'
+import { createHub } from '../../../src/utils/db/hub'
+import { ActionAlertManager, isActionAlertFiring } from '../../../src/worker/ingestion/action-alert-manager'
+import { resetTestDatabase } from '../../helpers/sql'
+
+function createAlert(overrides: Partial<ActionAlert> = {}): ActionAlert {
+    return {
+        id: 1,
+        team_id: 2,
+        action_id: 69,
+        alert_type: ActionAlertType.MoreThan,
+        threshold: 2,
+        window_minutes: 10,
+        created_at: '2021-01-01T00:00:00.000Z',
+        deleted: false,
+        ...overrides,
+    }
+}
+
+describe('isActionAlertFiring', () => {
+    const now = DateTime.fromISO('2021-01-01T12:00:00.000Z')
+
+    it('fires for too many matches', () => {
+        const alert = createAlert({ alert_type: ActionAlertType.MoreThan, threshold: 2 })
+
+        expect(isActionAlertFiring(alert, 3, now)).toBe(true)
+        expect(isActionAlertFiring(alert, 2, now)).toBe(false)
+    })
+
+    it('fires for too few matches once a full window has passed', () => {
+        const alert = createAlert({ alert_type: ActionAlertType.LessThan, threshold: 1, window_minutes: 60 })
+
+        expect(isActionAlertFiring(alert, 0, now)).toBe(true)
+        expect(isActionAlertFiring(alert, 1, now)).toBe(false)
+        expect(isActionAlertFiring({ ...alert, created_at: '2021-01-01T11:30:00.000Z' }, 0, now)).toBe(false)
+    })
+})
+
+describe('ActionAlertManager', () => {
+    let hub: Hub
+    let closeHub: () => Promise<void>
+    let actionAlertManager: ActionAlertManager
+    const now = DateTime.fromISO('2021-01-01T12:00:30.000Z')
+
+    beforeEach(async () => {
+        await resetTestDatabase()
+        ;[hub, closeHub] = await createHub()
+        actionAlertManager = hub.actionAlertManager
+        const redis = await hub.redisPool.acquire()
+        const keys = await redis.keys('@posthog-plugin-server/action-alerts/*')
+        if (keys.length) {
+            await redis.del(...keys)
+        }
+        await hub.redisPool.release(redis)
+        await hub.db.postgresQuery(
+            `UPDATE posthog_team SET slack_incoming_webhook = 'https://webhook.example.com/'`,
+            [],
+            'testTag'
+        )
+    })
+
+    afterEach(async () => {
+        await closeHub()
+    })
+
+    it('counts matches of actions with alerts within the window', async () => {
+        jest.spyOn(hub.db, 'fetchActionAlerts').mockResolvedValue([createAlert()])
+        const action = hub.actionManager.getTeamActions(2)[69]
+
+        await actionAlertManager.registerMatches([action], now.minus({ minutes: 15 }))
+        await actionAlertManager.registerMatches([action], now.minus({ minutes: 5 }))
+        await actionAlertManager.registerMatches([action, { ...action, id: 70 }], now)
+
+        expect(await actionAlertManager.getMatchCount(69, 10, now)).toEqual(2)
+        expect(await actionAlertManager.getMatchCount(69, 20, now)).toEqual(3)
+        expect(await actionAlertManager.getMatchCount(70, 20, now)).toEqual(0)
+    })
+
+    it('posts alerts once when they start firing', async () => {
+        jest.spyOn(hub.db, 'fetchActionAlerts').mockResolvedValue([createAlert({ threshold: 1 })])
+        const action = hub.actionManager.getTeamActions(2)[69]
+
+        await actionAlertManager.registerMatches([action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(0)
+
+        await actionAlertManager.registerMatches([action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(1)
+        expect(fetch).toHaveBeenCalledWith('https://webhook.example.com/', {
+            body: JSON.stringify(
+                {
+                    text: '🚨 Test Action was triggered 2 times in the last 10 minutes, more than the alert threshold of 1.',
+                },
+                undefined,
+                4
+            ),
+            headers: { 'Content-Type': 'application/json' },
+            method: 'POST',
+            timeout: 10_000,
+        })
+
+        await actionAlertManager.registerMatches([action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(0)
+
+        // once the matches are out of the window, the alert stops firing and can fire again later
+        expect(await actionAlertManager.checkAlerts(now.plus({ minutes: 30 }))).toEqual(0)
+        await actionAlertManager.registerMatches([action, action], now.plus({ minutes: 30 }))
+        expect(await actionAlertManager.checkAlerts(now.plus({ minutes: 30 }))).toEqual(1)
+    })
+
+    it('caps the window of alerts to the longest one supported', async () => {
+        jest.spyOn(hub.db, 'fetchActionAlerts').mockResolvedValue([
+            createAlert({ threshold: 1, window_minutes: 7 * 24 * 60 }),
+        ])
+        const action = hub.actionManager.getTeamActions(2)[69]
+
+        await actionAlertManager.registerMatches([action, action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(1)
+        expect(fetch).toHaveBeenCalledWith(
+            'https://webhook.example.com/',
+            expect.objectContaining({
+                body: JSON.stringify(
+                    {
+                        text: '🚨 Test Action was triggered 2 times in the last 1440 minutes, more than the alert threshold of 1.',
+                    },
+                    undefined,
+                    4
+                ),
+            })
+        )
+    })
+
+    it('retries posting alerts that failed to post', async () => {
+        jest.spyOn(hub.db, 'fetchActionAlerts').mockResolvedValue([createAlert({ threshold: 0 })])
+        const action = hub.actionManager.getTeamActions(2)[69]
+        mocked(fetch).mockResolvedValueOnce({ status: 500 } as any)
+
+        await actionAlertManager.registerMatches([action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(0)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(1)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(0)
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps checking other alerts when one fails', async () => {
+        jest.spyOn(hub.db, 'fetchActionAlerts').mockResolvedValue([
+            createAlert({ id: 1, action_id: 68, threshold: 0 }),
+            createAlert({ id: 2, threshold: 0 }),
+        ])
+        const action = hub.actionManager.getTeamActions(2)[69]
+        const getMatchCount = actionAlertManager.getMatchCount.bind(actionAlertManager)
+        jest.spyOn(actionAlertManager, 'getMatchCount').mockImplementation((actionId, ...args) =>
+            actionId === 68 ? Promise.reject(new Error('Redis is down')) : getMatchCount(actionId, ...args)
+        )
+
+        await actionAlertManager.registerMatches([action], now)
+        expect(await actionAlertManager.checkAlerts(now)).toEqual(1)
+    })
+})
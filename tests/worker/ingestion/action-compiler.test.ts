@@ -0,0 +1,179 @@
+import { Action, ActionStep, ActionStepUrlMatching, PropertyOperator } from '../../../src/types'
+import { status } from '../../../src/utils/status'
+import { ActionIndex, compileAction, compileCohort } from '../../../src/worker/ingestion/action-compiler'
+
+function createAction(id: number, partialSteps: Partial<ActionStep>[]): Action {
+    return {
+        id,
+        team_id: 2,
+        name: 'Test',
+        created_at: '2021-01-01T00:00:00.000Z',
+        created_by_id: 1,
+        deleted: false,
+        post_to_slack: false,
+        slack_message_format: '',
+        is_calculating: false,
+        updated_at: '2021-01-01T00:00:00.000Z',
+        last_calculated_at: '2021-01-01T00:00:00.000Z',
+        steps: partialSteps.map((partialStep, index) => ({
+            id: id * 100 + index,
+            action_id: id,
+            tag_name: null,
+            text: null,
+            href: null,
+            selector: null,
+            url: null,
+            url_matching: null,
+            name: null,
+            event: null,
+            properties: null,
+            ...partialStep,
+        })),
+    }
+}
+
+function candidateIds(index: ActionIndex, eventName: string): number[] {
+    return index
+        .getCandidates(eventName)
+        .map(({ action }) => action.id)
+        .sort((a, b) => a - b)
+}
+
+describe('compileAction', () => {
+    it('parses selectors and compiles patterns upfront', () => {
+        const compiledAction = compileAction(
+            createAction(1, [
+                { selector: 'main > .top', url: 'example.com/%/foo', url_matching: ActionStepUrlMatching.Contains },
+                {
+                    url: '(invalid',
+                    url_matching: ActionStepUrlMatching.Regex,
+                    properties: [
+                        { type: 'event', key: 'a', operator: PropertyOperator.Regex, value: ['^x', '(invalid'] },
+                        { type: 'element', key: 'selector', value: 'div' },
+                    ],
+                },
+            ])
+        )
+
+        const [first, second] = compiledAction.steps
+        expect(first.selector![0].map((part) => [part.combinator, part.tagName, part.classNames])).toEqual([
+            [null, 'main', []],
+            ['>', null, ['top']],
+        ])
+        expect(first.urlPattern!.test('http://example.com/bar/foo')).toEqual(true)
+        expect(second.urlPattern).toEqual(null)
+        expect(second.filters[0].regexes!.map((regex) => regex?.test('xyz') ?? null)).toEqual([true, null])
+        expect(second.filters[1].selector![0][0].tagName).toEqual('div')
+        expect(second.selectorError).toEqual(null)
+    })
+
+    it("reports selectors that can't be evaluated", () => {
+        const compiledAction = compileAction(
+            createAction(1, [
+                { selector: 'li:hover' },
+                { properties: [{ type: 'element', key: 'selector', value: 'div::before' }] },
+            ])
+        )
+
+        expect(compiledAction.steps.map((step) => step.selectorError)).toEqual([
+            'Can\'t evaluate selector "li:hover": :hover is not supported, as the element chain doesn\'t tell',
+            'Can\'t evaluate selector "div::before": pseudo-elements are never part of the element chain',
+        ])
+    })
+
+    it("reports selectors that can't be parsed at all", () => {
+        // filters are stored as JSON, so their values aren't guaranteed to have the right type
+        const compiledAction = compileAction(
+            createAction(1, [{ properties: [{ type: 'element', key: 'selector', value: 42 as any }] }])
+        )
+
+        expect(compiledAction.steps[0].selectorError).toEqual(
+            'Can\'t parse selector "42": this.selector.startsWith is not a function'
+        )
+    })
+})
+
+describe('compileCohort', () => {
+    it('compiles property groups only', () => {
+        const compiledCohort = compileCohort({
+            id: 1,
+            name: 'Test',
+            deleted: false,
+            groups: [
+                { properties: [{ key: 'name', operator: PropertyOperator.Regex, value: '^x' }] },
+                { action_id: 1, days: 7 },
+                { event_id: '$pageview', days: 7 },
+                { properties: [] },
+            ],
+            team_id: 2,
+            created_at: '2021-01-01T00:00:00.000Z',
+            created_by_id: 1,
+            is_calculating: false,
+            last_calculation: '2021-01-01T00:00:00.000Z',
+            errors_calculating: 0,
+            is_static: false,
+        })
+
+        expect(compiledCohort.groups.map((filters) => filters && filters.map(({ filter }) => filter.type))).toEqual([
+            ['person'],
+            null,
+            null,
+            null,
+        ])
+        expect(compiledCohort.groups[0]![0].regexes![0]!.test('xyz')).toEqual(true)
+    })
+})
+
+describe('ActionIndex', () => {
+    it('returns candidates by event name', () => {
+        const index = new ActionIndex([
+            createAction(1, [{ event: '$pageview' }]),
+            createAction(2, [{ event: '$pageview' }, { event: '$autocapture' }]),
+            createAction(3, [{ event: 'signup' }, { event: null }]),
+            createAction(4, []),
+        ])
+
+        expect(candidateIds(index, '$pageview')).toEqual([1, 2, 3])
+        expect(candidateIds(index, '$autocapture')).toEqual([2, 3])
+        expect(candidateIds(index, 'other')).toEqual([3])
+    })
+
+    it('reindexes set and deleted actions', () => {
+        const index = new ActionIndex([createAction(1, [{ event: '$pageview' }])])
+
+        index.set(createAction(1, [{ event: 'signup' }]))
+        index.set(createAction(2, [{ event: '$pageview' }]))
+
+        expect(candidateIds(index, '$pageview')).toEqual([2])
+        expect(candidateIds(index, 'signup')).toEqual([1])
+
+        index.delete(2)
+
+        expect(candidateIds(index, '$pageview')).toEqual([])
+    })
+
+    it('returns candidates in ID order', () => {
+        const index = new ActionIndex([
+            createAction(3, [{ event: '$pageview' }]),
+            createAction(1, [{ event: null }]),
+            createAction(2, [{ event: '$pageview' }]),
+        ])
+        index.set(createAction(0, [{ event: '$pageview' }]))
+
+        expect(index.getCandidates('$pageview').map(({ action }) => action.id)).toEqual([0, 1, 2, 3])
+    })
+
+    it('warns about steps that never match only when their action changes', () => {
+        const warn = jest.spyOn(status, 'warn').mockImplementation()
+        const action = createAction(1, [{ selector: 'li:hover' }])
+
+        const index = new ActionIndex([action])
+        const reloadedIndex = new ActionIndex([{ ...action }], index)
+        reloadedIndex.set({ ...action })
+        expect(warn).toHaveBeenCalledTimes(1)
+
+        reloadedIndex.set({ ...action, name: 'Renamed' })
+        expect(warn).toHaveBeenCalledTimes(2)
+        warn.mockRestore()
+    })
+})
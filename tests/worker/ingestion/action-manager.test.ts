@@ -132,4 +132,26 @@ describe('ActionManager', () => {
 
         expect(Object.values(droppedAction!).length).toEqual(0)
     })
+
+    it('keeps compiled actions in sync with the cache', async () => {
+        expect(actionManager.getCandidateActions(TEAM_ID, '$pageview').map(({ action }) => action.id)).toEqual([
+            ACTION_ID,
+        ])
+
+        await hub.db.postgresQuery(
+            `UPDATE posthog_actionstep SET event = 'signup' WHERE id = $1`,
+            [ACTION_STEP_ID],
+            'testKey'
+        )
+        await actionManager.reloadAction(TEAM_ID, ACTION_ID)
+
+        expect(actionManager.getCandidateActions(TEAM_ID, '$pageview')).toEqual([])
+        expect(actionManager.getCandidateActions(TEAM_ID, 'signup')[0].action).toBe(
+            actionManager.getTeamActions(TEAM_ID)[ACTION_ID]
+        )
+
+        actionManager.dropAction(TEAM_ID, ACTION_ID)
+
+        expect(actionManager.getCandidateActions(TEAM_ID, 'signup')).toEqual([])
+    })
 })
@@ -13,7 +13,12 @@ import {
 } from '../../../src/types'
 import { createHub } from '../../../src/utils/db/hub'
 import { UUIDT } from '../../../src/utils/utils'
-import { ActionMatcher, castingCompare } from '../../../src/worker/ingestion/action-matcher'
+import {
+    ActionMatcher,
+    castingBetween,
+    castingCompare,
+    castToDateTime,
+} from '../../../src/worker/ingestion/action-matcher'
 import { commonUserId } from '../../helpers/plugins'
 import { insertRow, resetTestDatabase } from '../../helpers/sql'
 import { KafkaProducerWrapper } from './../../../src/utils/db/kafka-producer-wrapper'
@@ -95,6 +100,8 @@ describe('ActionMatcher', () => {
             id: 2,
             team_id: 2,
             properties: {},
+            properties_last_updated_at: {},
+            properties_last_operation: {},
             is_user_id: 0,
             is_identified: true,
             uuid: 'F99FA0A1-E0C2-4CFE-A09A-4C3C4327A4C8',
@@ -112,6 +119,19 @@ describe('ActionMatcher', () => {
             expect(await actionMatcher.match(event)).toEqual([])
         })
 
+        it('matches session recording events only for actions opted into them', async () => {
+            const action = await createTestAction([{ event: '$session_recording_started' }])
+            const event = createTestEvent({ event: '$session_recording_started' })
+
+            expect(await actionMatcher.match(event)).toEqual([])
+            expect(hub.actionManager.hasSessionRecordingActions(2)).toEqual(false)
+
+            hub.actionManager.getTeamActions(2)[action.id].match_session_recording_events = true
+
+            expect(await actionMatcher.match(event)).toEqual([{ ...action, match_session_recording_events: true }])
+            expect(hub.actionManager.hasSessionRecordingActions(2)).toEqual(true)
+        })
+
         it('returns a match in case of event property operator exact', async () => {
             const actionDefinitionOpExact: Action = await createTestAction([
                 {
@@ -497,6 +517,157 @@ describe('ActionMatcher', () => {
             expect(await actionMatcher.match(eventFooNull)).toEqual([])
         })
 
+        it('returns a match in case of event property operators between and not between', async () => {
+            const actionDefinitionOpBetween: Action = await createTestAction([
+                {
+                    properties: [{ type: 'event', key: 'foo', value: [1, '10'], operator: PropertyOperator.Between }],
+                },
+            ])
+            const actionDefinitionOpNotBetween: Action = await createTestAction([
+                {
+                    properties: [{ type: 'event', key: 'foo', value: [1, 10], operator: PropertyOperator.NotBetween }],
+                },
+            ])
+
+            expect(await actionMatcher.match(createTestEvent({ properties: { foo: 1 } }))).toEqual([
+                actionDefinitionOpBetween,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { foo: 10 } }))).toEqual([
+                actionDefinitionOpBetween,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { foo: true } }))).toEqual([
+                actionDefinitionOpBetween,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { foo: 10.5 } }))).toEqual([
+                actionDefinitionOpNotBetween,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { foo: 'bar' } }))).toEqual([
+                actionDefinitionOpNotBetween,
+            ])
+            expect(await actionMatcher.match(createTestEvent())).toEqual([actionDefinitionOpNotBetween])
+        })
+
+        it('returns a match in case of event property date operators', async () => {
+            const actionDefinitionOpDateBefore: Action = await createTestAction([
+                {
+                    properties: [
+                        {
+                            type: 'event',
+                            key: 'signed_up_at',
+                            value: '2021-06-01',
+                            operator: PropertyOperator.IsDateBefore,
+                        },
+                    ],
+                },
+            ])
+            const actionDefinitionOpDateAfter: Action = await createTestAction([
+                {
+                    properties: [
+                        { type: 'event', key: 'signed_up_at', value: '-30d', operator: PropertyOperator.IsDateAfter },
+                    ],
+                },
+            ])
+            const actionDefinitionOpDateWithin: Action = await createTestAction([
+                {
+                    properties: [
+                        { type: 'event', key: 'signed_up_at', value: '7d', operator: PropertyOperator.IsDateWithin },
+                    ],
+                },
+            ])
+
+            const timestamp = '2021-07-01T12:00:00.000Z'
+
+            expect(
+                await actionMatcher.match(createTestEvent({ timestamp, properties: { signed_up_at: '2021-05-01' } }))
+            ).toEqual([actionDefinitionOpDateBefore])
+            expect(
+                await actionMatcher.match(createTestEvent({ timestamp, properties: { signed_up_at: '2021-06-15' } }))
+            ).toEqual([actionDefinitionOpDateAfter])
+            expect(
+                await actionMatcher.match(
+                    createTestEvent({ timestamp, properties: { signed_up_at: '2021-06-30T12:00:00Z' } })
+                )
+            ).toEqual([actionDefinitionOpDateAfter, actionDefinitionOpDateWithin])
+            expect(
+                await actionMatcher.match(createTestEvent({ timestamp, properties: { signed_up_at: 1625140800 } }))
+            ).toEqual([actionDefinitionOpDateAfter, actionDefinitionOpDateWithin])
+            expect(
+                await actionMatcher.match(createTestEvent({ timestamp, properties: { signed_up_at: '2021-07-02' } }))
+            ).toEqual([actionDefinitionOpDateAfter])
+            expect(
+                await actionMatcher.match(createTestEvent({ timestamp, properties: { signed_up_at: 'yesterday' } }))
+            ).toEqual([])
+        })
+
+        it('returns a match in case of event property operators starts with and ends with', async () => {
+            const actionDefinitionOpStartsWith: Action = await createTestAction([
+                {
+                    properties: [{ type: 'event', key: 'plan', value: 'pro', operator: PropertyOperator.StartsWith }],
+                },
+            ])
+            const actionDefinitionOpEndsWith: Action = await createTestAction([
+                {
+                    properties: [
+                        {
+                            type: 'event',
+                            key: 'plan',
+                            value: ['-yearly', '-monthly'],
+                            operator: PropertyOperator.EndsWith,
+                        },
+                    ],
+                },
+            ])
+
+            expect(await actionMatcher.match(createTestEvent({ properties: { plan: 'pro-yearly' } }))).toEqual([
+                actionDefinitionOpStartsWith,
+                actionDefinitionOpEndsWith,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { plan: 'free-monthly' } }))).toEqual([
+                actionDefinitionOpEndsWith,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { plan: 'Pro' } }))).toEqual([])
+            expect(await actionMatcher.match(createTestEvent({ properties: { plan: 5 } }))).toEqual([])
+        })
+
+        it('returns a match in case of event property list operators', async () => {
+            const actionDefinitionOpContainsAny: Action = await createTestAction([
+                {
+                    properties: [
+                        { type: 'event', key: 'tiers', value: ['pro', 2], operator: PropertyOperator.ContainsAny },
+                    ],
+                },
+            ])
+            const actionDefinitionOpContainsAll: Action = await createTestAction([
+                {
+                    properties: [
+                        { type: 'event', key: 'tiers', value: ['pro', 2], operator: PropertyOperator.ContainsAll },
+                    ],
+                },
+            ])
+            const actionDefinitionOpNotContainsAny: Action = await createTestAction([
+                {
+                    properties: [
+                        { type: 'event', key: 'tiers', value: ['pro', 2], operator: PropertyOperator.NotContainsAny },
+                    ],
+                },
+            ])
+
+            expect(await actionMatcher.match(createTestEvent({ properties: { tiers: ['pro', '2'] } }))).toEqual([
+                actionDefinitionOpContainsAny,
+                actionDefinitionOpContainsAll,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { tiers: ['free', 2] } }))).toEqual([
+                actionDefinitionOpContainsAny,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { tiers: ['free'] } }))).toEqual([
+                actionDefinitionOpNotContainsAny,
+            ])
+            expect(await actionMatcher.match(createTestEvent({ properties: { tiers: 'pro' } }))).toEqual([
+                actionDefinitionOpNotContainsAny,
+            ])
+            expect(await actionMatcher.match(createTestEvent())).toEqual([actionDefinitionOpNotContainsAny])
+        })
+
         it('returns a match in case of URL contains page view', async () => {
             const actionDefinition: Action = await createTestAction([
                 {
@@ -771,6 +942,105 @@ describe('ActionMatcher', () => {
             ).toEqual([])
         })
 
+        it('returns a match in case of a property cohort match, without precalculation', async () => {
+            const nestedCohort = await hub.db.createCohort({
+                name: 'Nested',
+                created_by_id: commonUserId,
+                team_id: 2,
+                groups: [{ properties: [{ key: 'plan', operator: PropertyOperator.Exact, value: 'pro' }] }],
+            })
+            const testCohort = await hub.db.createCohort({
+                name: 'Test',
+                created_by_id: commonUserId,
+                team_id: 2,
+                groups: [
+                    {
+                        properties: [
+                            {
+                                type: 'person',
+                                key: 'email',
+                                operator: PropertyOperator.IContains,
+                                value: '@posthog.com',
+                            },
+                            { type: 'cohort', key: 'id', value: nestedCohort.id },
+                        ],
+                    },
+                    { properties: [{ type: 'person', key: 'vip', operator: PropertyOperator.IsSet, value: null }] },
+                ],
+            })
+
+            const actionDefinition: Action = await createTestAction([
+                {
+                    properties: [{ type: 'cohort', key: 'id', value: testCohort.id }],
+                },
+            ])
+
+            const event = createTestEvent()
+
+            expect(
+                await actionMatcher.match(
+                    event,
+                    createTestPerson({ properties: { email: 'hey@PostHog.com', plan: 'pro' } })
+                )
+            ).toEqual([actionDefinition])
+            expect(await actionMatcher.match(event, createTestPerson({ properties: { vip: true } }))).toEqual([
+                actionDefinition,
+            ])
+            expect(
+                await actionMatcher.match(
+                    event,
+                    createTestPerson({ properties: { email: 'hey@posthog.com', plan: 'free' } })
+                )
+            ).toEqual([])
+            expect(await actionMatcher.match(event, createTestPerson())).toEqual([])
+        })
+
+        it('returns a match in case of a behavioral cohort match, from precalculation only', async () => {
+            const testCohort = await hub.db.createCohort({
+                name: 'Test',
+                created_by_id: commonUserId,
+                team_id: 2,
+                groups: [
+                    { action_id: 69, days: 7 },
+                    { properties: [{ type: 'person', key: 'vip', operator: PropertyOperator.IsSet, value: null }] },
+                ],
+            })
+
+            const actionDefinition: Action = await createTestAction([
+                {
+                    properties: [{ type: 'cohort', key: 'id', value: testCohort.id }],
+                },
+            ])
+
+            const cohortPerson = await hub.db.createPerson(
+                DateTime.local(),
+                {},
+                actionDefinition.team_id,
+                null,
+                true,
+                new UUIDT().toString(),
+                ['cohort']
+            )
+            const otherPerson = await hub.db.createPerson(
+                DateTime.local(),
+                {},
+                actionDefinition.team_id,
+                null,
+                true,
+                new UUIDT().toString(),
+                ['other']
+            )
+            await hub.db.addPersonToCohort(testCohort.id, cohortPerson.id)
+
+            const event = createTestEvent()
+
+            expect(await actionMatcher.match(event, cohortPerson)).toEqual([actionDefinition])
+            expect(await actionMatcher.match(event, otherPerson)).toEqual([])
+            expect(await actionMatcher.match(event, { ...otherPerson, properties: { vip: 'yes' } })).toEqual([
+                actionDefinition,
+            ])
+        })
+
         it('returns a match in case of a CH static cohort match', async () => {
             // Static cohorts are stored in their own ClickHouse table, hence this path has its own test
             const testCohortStatic = await hub.db.createCohort({
@@ -975,6 +1245,116 @@ describe('ActionMatcher', () => {
         })
     })
 
+    describe('#explain()', () => {
+        it('explains every condition of every step', async () => {
+            const action = await createTestAction([
+                {
+                    event: '$autocapture',
+                    url: 'example.com/bar/',
+                    selector: 'div > button',
+                    properties: [
+                        { type: 'event', key: 'foo', value: 'bar', operator: 'exact' as PropertyOperator },
+                        { type: 'person', key: 'plan', value: 'free', operator: 'is_not' as PropertyOperator },
+                    ],
+                },
+                { event: '$pageview', text: 'Sign up' },
+            ])
+            const event = createTestEvent({
+                event: '$autocapture',
+                properties: { $current_url: 'http://example.com/foo/', foo: 'bar' },
+            })
+            const elements: Element[] = [{ tag_name: 'button', text: 'Sign up' }, { tag_name: 'div' }]
+            const person = createTestPerson({ properties: { plan: 'free' } })
+
+            expect(await actionMatcher.explain(event, person, elements)).toEqual([
+                {
+                    actionId: action.id,
+                    actionName: 'Test',
+                    match: false,
+                    skippedReason: null,
+                    steps: [
+                        {
+                            stepId: action.steps[0].id,
+                            match: false,
+                            conditions: [
+                                { condition: 'selector', match: true, expected: 'div > button' },
+                                {
+                                    condition: 'url',
+                                    match: false,
+                                    expected: { url: 'example.com/bar/', url_matching: null },
+                                    found: 'http://example.com/foo/',
+                                },
+                                { condition: 'event', match: true, expected: '$autocapture', found: '$autocapture' },
+                                {
+                                    condition: 'property',
+                                    match: true,
+                                    expected: action.steps[0].properties![0],
+                                    found: 'bar',
+                                },
+                                {
+                                    condition: 'property',
+                                    match: false,
+                                    expected: action.steps[0].properties![1],
+                                    found: 'free',
+                                },
+                            ],
+                        },
+                        {
+                            stepId: action.steps[1].id,
+                            match: false,
+                            conditions: [
+                                {
+                                    condition: 'element',
+                                    match: true,
+                                    expected: { href: null, tag_name: null, text: 'Sign up' },
+                                },
+                                { condition: 'event', match: false, expected: '$pageview', found: '$autocapture' },
+                            ],
+                        },
+                    ],
+                },
+            ])
+        })
+
+        it('explains why an action is skipped', async () => {
+            const actionWithoutSteps = await createTestAction([])
+            const recordingAction = await createTestAction([{ event: '$session_recording_started' }])
+
+            const explanations = await actionMatcher.explain(createTestEvent({ event: '$session_recording_started' }))
+
+            expect(explanations).toEqual([
+                expect.objectContaining({
+                    actionId: actionWithoutSteps.id,
+                    match: false,
+                    skippedReason: 'The action has no steps.',
+                }),
+                expect.objectContaining({
+                    actionId: recordingAction.id,
+                    match: false,
+                    skippedReason: 'The action is not matched against session recording events.',
+                    steps: [expect.objectContaining({ match: true })],
+                }),
+            ])
+        })
+
+        it("reports selectors that can't be evaluated", async () => {
+            const action = await createTestAction([{ selector: 'a:hover' }])
+
+            const [explanation] = await actionMatcher.explain(createTestEvent(), undefined, [{ tag_name: 'a' }])
+
+            expect(explanation.match).toEqual(false)
+            expect(explanation.steps[0].conditions).toEqual([
+                {
+                    condition: 'selector',
+                    match: false,
+                    expected: 'a:hover',
+                    error: expect.stringContaining(':hover'),
+                },
+            ])
+            expect(explanation.actionId).toEqual(action.id)
+        })
+    })
+
     describe('#checkElementsAgainstSelector()', () => {
         it('handles any descendant selector', () => {
             const elements: Element[] = [
@@ -1122,3 +1502,31 @@ describe('castingCompare', () => {
         expect(castingCompare('9032.3', -1.2, PropertyOperator.GreaterThan)).toBeTruthy()
     })
 })
+
+describe('castingBetween', () => {
+    it('compares inclusively', () => {
+        expect(castingBetween(5, 1, 10)).toBeTruthy()
+        expect(castingBetween(1, 1, 10)).toBeTruthy()
+        expect(castingBetween(10, '1', '10')).toBeTruthy()
+        expect(castingBetween(true, 0, 1)).toBeTruthy()
+        expect(castingBetween('5.5', 5, 6)).toBeTruthy()
+
+        expect(castingBetween(11, 1, 10)).toBeFalsy()
+        expect(castingBetween(5, 'a', 10)).toBeFalsy()
+        expect(castingBetween('a', 1, 10)).toBeFalsy()
+    })
+})
+
+describe('castToDateTime', () => {
+    it('casts dates', () => {
+        expect(castToDateTime('2021-05-01')?.toISO()).toEqual('2021-05-01T00:00:00.000Z')
+        expect(castToDateTime('2021-05-01 10:00:00')?.toISO()).toEqual('2021-05-01T10:00:00.000Z')
+        expect(castToDateTime('2021-05-01T10:00:00+02:00')?.toISO()).toEqual('2021-05-01T08:00:00.000Z')
+        expect(castToDateTime('Sat, 01 May 2021 10:00:00 GMT')?.toISO()).toEqual('2021-05-01T10:00:00.000Z')
+        expect(castToDateTime(1619863200)?.toISO()).toEqual('2021-05-01T10:00:00.000Z')
+        expect(castToDateTime('1619863200000')?.toISO()).toEqual('2021-05-01T10:00:00.000Z')
+
+        expect(castToDateTime('yesterday')).toEqual(null)
+        expect(castToDateTime(true)).toEqual(null)
+    })
+})
@@ -0,0 +1,101 @@
+import { PluginEvent } from '@posthog/plugin-scaffold/src/types'
+
+import {
+    DEAD_LETTER_QUEUE_REPLAYED_UNTIL_KEY,
+    replayDeadLetterQueue,
+} from '../../../src/main/services/dead-letter-queue'
+import { Hub, IngestionStage } from '../../../src/types'
+import { createHub } from '../../../src/utils/db/hub'
+import { UUIDT } from '../../../src/utils/utils'
+import { ingestEvent } from '../../../src/worker/ingestion/ingest-event'
+import { resetTestDatabase } from '../../helpers/sql'
+
+jest.mock('../../../src/utils/status')
+
+function createTestEvent(): PluginEvent {
+    return {
+        event: 'xyz',
+        properties: { foo: 'bar' },
+        timestamp: new Date().toISOString(),
+        now: new Date().toISOString(),
+        team_id: 2,
+        distinct_id: 'abc',
+        ip: null,
+        site_url: 'https://example.com',
+        uuid: new UUIDT().toString(),
+    }
+}
+
+describe('dead letter queue', () => {
+    let hub: Hub
+    let closeHub: () => Promise<void>
+
+    beforeEach(async () => {
+        await resetTestDatabase()
+        ;[hub, closeHub] = await createHub()
+        const redis = await hub.redisPool.acquire()
+        await redis.del(DEAD_LETTER_QUEUE_REPLAYED_UNTIL_KEY)
+        await hub.redisPool.release(redis)
+    })
+
+    afterEach(async () => {
+        await closeHub()
+    })
+
+    it('stores events that fail in processEvent', async () => {
+        jest.spyOn(hub.eventsProcessor, 'processEvent').mockRejectedValueOnce(new Error('database is down'))
+        const event = createTestEvent()
+
+        const response = await ingestEvent(hub, event)
+
+        expect(response).toEqual({ error: 'database is down' })
+        const deadLetterQueueEvents = await hub.db.fetchDeadLetterQueueEvents()
+        expect(deadLetterQueueEvents).toEqual([
+            {
+                id: expect.any(String),
+                event_uuid: event.uuid,
+                event: 'xyz',
+                team_id: 2,
+                distinct_id: 'abc',
+                raw_payload: JSON.stringify(event),
+                error_timestamp: expect.any(String),
+                error_location: IngestionStage.ProcessEvent,
+                error: 'Error: database is down',
+            },
+        ])
+    })
+
+    it('stores the stage at which an event failed', async () => {
+        jest.spyOn(hub.actionMatcher, 'match').mockRejectedValueOnce(new Error('bad action'))
+
+        await ingestEvent(hub, createTestEvent())
+
+        const [deadLetterQueueEvent] = await hub.db.fetchDeadLetterQueueEvents()
+        expect(deadLetterQueueEvent.error_location).toEqual(IngestionStage.ActionMatching)
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+    })
+
+    it('does not store successfully ingested events', async () => {
+        await ingestEvent(hub, createTestEvent())
+
+        expect(await hub.db.fetchDeadLetterQueueEvents()).toEqual([])
+    })
+
+    it('replays events that failed in processEvent', async () => {
+        jest.spyOn(hub.eventsProcessor, 'processEvent').mockRejectedValueOnce(new Error('database is down'))
+        jest.spyOn(hub.actionMatcher, 'match').mockRejectedValueOnce(new Error('bad action'))
+        await ingestEvent(hub, createTestEvent())
+        await ingestEvent(hub, createTestEvent())
+        expect((await hub.db.fetchEvents()).length).toEqual(1)
+
+        const result = await replayDeadLetterQueue(hub)
+
+        expect(result).toEqual({ replayed: 1, skipped: 1, failed: 0 })
+        expect((await hub.db.fetchEvents()).length).toEqual(2)
+        const deadLetterQueueEvents = await hub.db.fetchDeadLetterQueueEvents()
+        expect(deadLetterQueueEvents.map((event) => event.error_location)).toEqual([IngestionStage.ActionMatching])
+
+        // nothing new to replay
+        expect(await replayDeadLetterQueue(hub)).toEqual({ replayed: 0, skipped: 0, failed: 0 })
+    })
+})
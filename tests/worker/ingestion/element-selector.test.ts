@@ -0,0 +1,111 @@
+import { Element } from '../../../src/types'
+import { matchSelector, parseSelector, UnsupportedSelectorError } from '../../../src/worker/ingestion/element-selector'
+
+function matches(elements: Element[], selector: string): boolean {
+    return matchSelector(elements, parseSelector(selector))
+}
+
+describe('element selectors', () => {
+    const elements: Element[] = [
+        {
+            tag_name: 'button',
+            attr_id: 'signup',
+            attr_class: ['btn', 'btn-primary'],
+            nth_child: 3,
+            nth_of_type: 2,
+            attributes: { 'attr__data-attr': 'signup-button', attr__lang: 'en-US' },
+        },
+        { tag_name: 'li', nth_child: 2, nth_of_type: 2 },
+        { tag_name: 'ul', attr_class: ['menu'], nth_child: 1, nth_of_type: 1 },
+        { tag_name: 'body' },
+    ]
+
+    it('matches tags, IDs, classes and attributes', () => {
+        expect(matches(elements, 'button#signup.btn.btn-primary')).toBeTruthy()
+        expect(matches(elements, '[data-attr="signup-button"]')).toBeTruthy()
+        expect(matches(elements, "[data-attr='signup-button']")).toBeTruthy()
+        expect(matches(elements, '[data-attr=signup-button]')).toBeTruthy()
+        expect(matches(elements, '[data-attr]')).toBeTruthy()
+        expect(matches(elements, '[id="signup"][class~="btn"]')).toBeTruthy()
+
+        expect(matches(elements, 'button#login')).toBeFalsy()
+        expect(matches(elements, '.btn.btn-secondary')).toBeFalsy()
+        expect(matches(elements, '[data-other]')).toBeFalsy()
+    })
+
+    it('matches attribute operators', () => {
+        expect(matches(elements, '[data-attr^="signup"]')).toBeTruthy()
+        expect(matches(elements, '[data-attr$="button"]')).toBeTruthy()
+        expect(matches(elements, '[data-attr*="up-bu"]')).toBeTruthy()
+        expect(matches(elements, '[class~="btn-primary"]')).toBeTruthy()
+        expect(matches(elements, '[lang|="en"]')).toBeTruthy()
+        expect(matches(elements, '[data-attr="SIGNUP-BUTTON" i]')).toBeTruthy()
+
+        expect(matches(elements, '[data-attr^="button"]')).toBeFalsy()
+        expect(matches(elements, '[data-attr$="signup"]')).toBeFalsy()
+        expect(matches(elements, '[data-attr*=""]')).toBeFalsy()
+        expect(matches(elements, '[class~="btn-prim"]')).toBeFalsy()
+        expect(matches(elements, '[lang|="e"]')).toBeFalsy()
+        expect(matches(elements, '[data-attr="SIGNUP-BUTTON"]')).toBeFalsy()
+    })
+
+    it('matches positions', () => {
+        expect(matches(elements, 'button:nth-child(3):nth-of-type(2)')).toBeTruthy()
+        expect(matches(elements, 'button:nth-child(odd)')).toBeTruthy()
+        expect(matches(elements, 'button:nth-child(2n+1)')).toBeTruthy()
+        expect(matches(elements, 'button:nth-child(-n+3)')).toBeTruthy()
+        expect(matches(elements, 'ul:first-child')).toBeTruthy()
+
+        expect(matches(elements, 'button:nth-child(even)')).toBeFalsy()
+        expect(matches(elements, 'button:first-of-type')).toBeFalsy()
+        expect(matches(elements, 'body:first-child')).toBeFalsy()
+    })
+
+    it('matches negations', () => {
+        expect(matches(elements, 'button:not(.btn-secondary)')).toBeTruthy()
+        expect(matches(elements, 'ul > :not(a, span)')).toBeTruthy()
+
+        expect(matches(elements, 'button:not(.btn-primary)')).toBeFalsy()
+        expect(matches(elements, 'button:not(#login, [data-attr])')).toBeFalsy()
+    })
+
+    it('matches combinators', () => {
+        expect(matches(elements, 'body ul > li button')).toBeTruthy()
+        expect(matches(elements, 'body>ul>li>button')).toBeTruthy()
+        expect(matches(elements, 'li > * + button')).toBeTruthy()
+        expect(matches(elements, '.menu > li ~ li')).toBeTruthy()
+        expect(matches(elements, 'body > * ~ ul')).toBeFalsy()
+        expect(matches(elements, 'body > li button')).toBeFalsy()
+        expect(matches(elements, 'ul > button')).toBeFalsy()
+    })
+
+    it('matches any selector of a list', () => {
+        expect(matches(elements, 'a.nav, button.btn')).toBeTruthy()
+        expect(matches(elements, 'a.nav, span')).toBeFalsy()
+    })
+
+    it('unescapes names', () => {
+        const escapedElements: Element[] = [{ tag_name: 'div', attr_class: ['sm:flex', '1col'] }]
+
+        expect(matches(escapedElements, '.sm\\:flex.\\31 col')).toBeTruthy()
+        expect(matchSelector(escapedElements, parseSelector('.sm\\:flex', false))).toBeFalsy()
+    })
+
+    it("reports selectors that can't be evaluated", () => {
+        for (const selector of [
+            'a:hover',
+            'a::before',
+            'li:nth-child(2 of .item)',
+            'div:not(ul > li)',
+            '.menu + li',
+            'a ~ li',
+            '* + * ~ li',
+            'div >',
+            'div[data-attr!="x"]',
+            'div,',
+            '.\\110000',
+        ]) {
+            expect(() => parseSelector(selector)).toThrow(UnsupportedSelectorError)
+        }
+    })
+})
@@ -0,0 +1,90 @@
+import { EventSchema, PropertyType, SchemaEnforcement } from '../../../src/types'
+import {
+    applyEventSchema,
+    coercePropertyType,
+    detectPropertyType,
+    matchesPropertyType,
+} from '../../../src/worker/ingestion/event-schema'
+
+function createSchema(enforcement: SchemaEnforcement): EventSchema {
+    return {
+        id: 'schema',
+        team_id: 2,
+        event: 'purchase',
+        properties: {
+            price: PropertyType.Numeric,
+            plan: PropertyType.String,
+            trial: PropertyType.Boolean,
+            purchased_at: PropertyType.DateTime,
+        },
+        enforcement,
+    }
+}
+
+describe('matchesPropertyType', () => {
+    it('checks values against types', () => {
+        expect(matchesPropertyType(1.5, PropertyType.Numeric)).toBe(true)
+        expect(matchesPropertyType('1.5', PropertyType.Numeric)).toBe(false)
+        expect(matchesPropertyType(NaN, PropertyType.Numeric)).toBe(false)
+        expect(matchesPropertyType('pro', PropertyType.String)).toBe(true)
+        expect(matchesPropertyType(false, PropertyType.Boolean)).toBe(true)
+        expect(matchesPropertyType('false', PropertyType.Boolean)).toBe(false)
+        expect(matchesPropertyType('2021-07-01T12:00:00Z', PropertyType.DateTime)).toBe(true)
+        expect(matchesPropertyType('yesterday', PropertyType.DateTime)).toBe(false)
+        expect(matchesPropertyType([1, 2], PropertyType.Object)).toBe(true)
+        expect(matchesPropertyType(null, PropertyType.Object)).toBe(false)
+    })
+})
+
+describe('detectPropertyType', () => {
+    it('detects the type of values', () => {
+        expect(detectPropertyType('pro')).toBe(PropertyType.String)
+        expect(detectPropertyType('2021')).toBe(PropertyType.String)
+        expect(detectPropertyType('2021-07-01T12:00:00Z')).toBe(PropertyType.DateTime)
+        expect(detectPropertyType(2021)).toBe(PropertyType.Numeric)
+        expect(detectPropertyType(true)).toBe(PropertyType.Boolean)
+        expect(detectPropertyType({ a: 1 })).toBe(PropertyType.Object)
+        expect(detectPropertyType([])).toBe(PropertyType.Object)
+        expect(detectPropertyType(null)).toBe(null)
+    })
+})
+
+describe('coercePropertyType', () => {
+    it('converts unambiguous values', () => {
+        expect(coercePropertyType('1.5', PropertyType.Numeric)).toBe(1.5)
+        expect(coercePropertyType(3, PropertyType.String)).toBe('3')
+        expect(coercePropertyType('TRUE', PropertyType.Boolean)).toBe(true)
+        expect(coercePropertyType(0, PropertyType.Boolean)).toBe(false)
+        expect(coercePropertyType(1625140800, PropertyType.DateTime)).toBe('2021-07-01T12:00:00.000Z')
+        expect(coercePropertyType(1625140800000, PropertyType.DateTime)).toBe('2021-07-01T12:00:00.000Z')
+        expect(coercePropertyType('2021-07-01 12:00:00', PropertyType.DateTime)).toBe('2021-07-01T12:00:00.000Z')
+    })
+
+    it('refuses to guess', () => {
+        expect(coercePropertyType('', PropertyType.Numeric)).toBeUndefined()
+        expect(coercePropertyType('1.5 USD', PropertyType.Numeric)).toBeUndefined()
+        expect(coercePropertyType({ a: 1 }, PropertyType.String)).toBeUndefined()
+        expect(coercePropertyType('yes', PropertyType.Boolean)).toBeUndefined()
+        expect(coercePropertyType('yesterday', PropertyType.DateTime)).toBeUndefined()
+    })
+})
+
+describe('applyEventSchema', () => {
+    it('lists violations without changing properties', () => {
+        const properties = { price: '9.99', plan: 'pro', trial: 'no', other: 1 }
+
+        expect(applyEventSchema(createSchema(SchemaEnforcement.Tag), properties)).toEqual(['price', 'trial'])
+        expect(properties).toEqual({ price: '9.99', plan: 'pro', trial: 'no', other: 1 })
+    })
+
+    it('ignores properties that are not set', () => {
+        expect(applyEventSchema(createSchema(SchemaEnforcement.Tag), { plan: null })).toEqual([])
+    })
+
+    it('coerces what it can', () => {
+        const properties = { price: '9.99', plan: 'pro', trial: 'no' }
+
+        expect(applyEventSchema(createSchema(SchemaEnforcement.Coerce), properties)).toEqual(['trial'])
+        expect(properties).toEqual({ price: 9.99, plan: 'pro', trial: 'no' })
+    })
+})
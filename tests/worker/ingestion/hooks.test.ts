@@ -1,13 +1,22 @@
 import { PluginEvent } from '@posthog/plugin-scaffold'
+import fetch from 'node-fetch'
+import { mocked } from 'ts-jest/utils'
 
-import { Action, Person } from '../../../src/types'
+import { Action, ActionAlert, ActionAlertType, Person, WebhookDelivery } from '../../../src/types'
+import { DB } from '../../../src/utils/db/db'
 import {
     determineWebhookType,
     getActionDetails,
+    getAlertMessage,
     getFormattedMessage,
     getTokens,
     getUserDetails,
     getValueOfToken,
+    getWebhookRetryDelayMs,
+    HookCommander,
+    isWebhookDeliveryJob,
+    isWebhookFailureRetryable,
+    WEBHOOK_DELIVERY_JOB_TYPE,
     WebhookType,
 } from '../../../src/worker/ingestion/hooks'
 
@@ -193,3 +202,168 @@ describe('getFormattedMessage', () => {
         expect(markdown).toBe('<https://localhost:8000/person/2|2> did thing from browser undefined')
     })
 })
+
+describe('getAlertMessage', () => {
+    const action = { id: 1, name: 'action1' } as Action
+    const alert = { alert_type: ActionAlertType.MoreThan, threshold: 10, window_minutes: 5 } as ActionAlert
+
+    test('too many matches', () => {
+        const [text, markdown] = getAlertMessage(action, alert, 12, 'https://localhost:8000', WebhookType.Slack)
+        expect(text).toBe(
+            '🚨 action1 was triggered 12 times in the last 5 minutes, more than the alert threshold of 10.'
+        )
+        expect(markdown).toBe(
+            '🚨 <https://localhost:8000/action/1|action1> was triggered 12 times in the last 5 minutes, more than the alert threshold of 10.'
+        )
+    })
+
+    test('too few matches', () => {
+        const lessThanAlert = { ...alert, alert_type: ActionAlertType.LessThan, window_minutes: 60 }
+
+        const [text] = getAlertMessage(action, lessThanAlert, 3, null, WebhookType.Teams)
+        expect(text).toBe(
+            '🚨 action1 was triggered only 3 times in the last 60 minutes, less than the alert threshold of 10.'
+        )
+
+        const [, markdown] = getAlertMessage(
+            action,
+            { ...lessThanAlert, window_minutes: 1 },
+            0,
+            null,
+            WebhookType.Teams
+        )
+        expect(markdown).toBe('🚨 action1 has not been triggered in the last 1 minute.')
+    })
+})
+
+describe('webhook delivery', () => {
+    const deliveryConfig = { WEBHOOK_TIMEOUT_SECONDS: 10, WEBHOOK_MAX_ATTEMPTS: 3, WEBHOOK_RETRY_DELAY_SECONDS: 30 }
+    const delivery: WebhookDelivery = {
+        teamId: 2,
+        url: 'https://webhook.example.com/',
+        body: '{"text": "hi"}',
+        actionId: 1,
+        hookId: null,
+        attempt: 1,
+    }
+    let db: DB
+    let enqueue: jest.Mock
+    let hookCommander: HookCommander
+
+    beforeEach(() => {
+        db = { addWebhookDeliveryAttempt: jest.fn(), deleteRestHook: jest.fn() } as unknown as DB
+        enqueue = jest.fn()
+        hookCommander = new HookCommander(db, null as any, null as any, deliveryConfig)
+        hookCommander.jobQueueManager = { enqueue } as any
+    })
+
+    test('getWebhookRetryDelayMs', () => {
+        expect(getWebhookRetryDelayMs(1, 30)).toBe(30_000)
+        expect(getWebhookRetryDelayMs(2, 30)).toBe(60_000)
+        expect(getWebhookRetryDelayMs(4, 30)).toBe(240_000)
+    })
+
+    test('isWebhookFailureRetryable', () => {
+        expect(isWebhookFailureRetryable(null)).toBe(true)
+        expect(isWebhookFailureRetryable(503)).toBe(true)
+        expect(isWebhookFailureRetryable(429)).toBe(true)
+        expect(isWebhookFailureRetryable(404)).toBe(false)
+    })
+
+    test('isWebhookDeliveryJob', () => {
+        const job = {
+            type: WEBHOOK_DELIVERY_JOB_TYPE,
+            payload: {},
+            timestamp: 0,
+            pluginConfigId: 0,
+            pluginConfigTeam: 2,
+        }
+
+        expect(isWebhookDeliveryJob(job)).toBe(true)
+        expect(isWebhookDeliveryJob({ ...job, pluginConfigId: 1 })).toBe(false)
+    })
+
+    test('delivers with a timeout', async () => {
+        expect(await hookCommander.deliverWebhook(delivery)).toBe(true)
+
+        expect(fetch).toHaveBeenCalledWith('https://webhook.example.com/', {
+            body: '{"text": "hi"}',
+            headers: { 'Content-Type': 'application/json' },
+            method: 'POST',
+            timeout: 10_000,
+        })
+        expect(enqueue).not.toHaveBeenCalled()
+        expect(db.addWebhookDeliveryAttempt).not.toHaveBeenCalled()
+    })
+
+    test('retries temporary failures with backoff', async () => {
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+        mocked(fetch).mockRejectedValueOnce(new Error('network timeout'))
+
+        expect(await hookCommander.deliverWebhook({ ...delivery, attempt: 2 })).toBe(false)
+        dateNow.mockRestore()
+
+        expect(enqueue).toHaveBeenCalledWith({
+            type: WEBHOOK_DELIVERY_JOB_TYPE,
+            payload: { delivery: { ...delivery, attempt: 3 } },
+            timestamp: 1_060_000,
+            pluginConfigId: 0,
+            pluginConfigTeam: 2,
+        })
+        expect(db.addWebhookDeliveryAttempt).toHaveBeenCalledWith(
+            expect.objectContaining({
+                team_id: 2,
+                action_id: 1,
+                attempt: 2,
+                status_code: null,
+                error: 'Error: network timeout',
+                succeeded: false,
+                will_retry: true,
+            })
+        )
+    })
+
+    test('gives up after the last attempt or a permanent failure', async () => {
+        mocked(fetch).mockResolvedValueOnce({ status: 503 } as any)
+        expect(await hookCommander.deliverWebhook({ ...delivery, attempt: 3 })).toBe(false)
+
+        mocked(fetch).mockResolvedValueOnce({ status: 404 } as any)
+        expect(await hookCommander.deliverWebhook(delivery)).toBe(false)
+
+        expect(enqueue).not.toHaveBeenCalled()
+        expect(mocked(db.addWebhookDeliveryAttempt).mock.calls.map(([attempt]) => attempt)).toEqual([
+            expect.objectContaining({ attempt: 3, status_code: 503, succeeded: false, will_retry: false }),
+            expect.objectContaining({ attempt: 1, status_code: 404, succeeded: false, will_retry: false }),
+        ])
+    })
+
+    test("doesn't retry when asked not to", async () => {
+        mocked(fetch).mockResolvedValueOnce({ status: 503 } as any)
+
+        expect(await hookCommander.deliverWebhook(delivery, false)).toBe(false)
+
+        expect(enqueue).not.toHaveBeenCalled()
+        expect(db.addWebhookDeliveryAttempt).toHaveBeenCalledWith(
+            expect.objectContaining({ attempt: 1, status_code: 503, succeeded: false, will_retry: false })
+        )
+    })
+
+    test('records late successes', async () => {
+        mocked(fetch).mockResolvedValueOnce({ status: 200 } as any)
+
+        expect(await hookCommander.deliverWebhook({ ...delivery, attempt: 2 })).toBe(true)
+
+        expect(db.addWebhookDeliveryAttempt).toHaveBeenCalledWith(
+            expect.objectContaining({ attempt: 2, status_code: 200, error: null, succeeded: true, will_retry: false })
+        )
+    })
+
+    test('deletes REST hooks gone on their side', async () => {
+        mocked(fetch).mockResolvedValueOnce({ status: 410 } as any)
+
+        expect(await hookCommander.deliverWebhook({ ...delivery, hookId: 'abc' })).toBe(true)
+
+        expect(db.deleteRestHook).toHaveBeenCalledWith('abc')
+        expect(enqueue).not.toHaveBeenCalled()
+    })
+})
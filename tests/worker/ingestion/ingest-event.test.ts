@@ -56,6 +56,7 @@ describe('ingestEvent', () => {
             body: JSON.stringify(expectedPayload, undefined, 4),
             headers: { 'Content-Type': 'application/json' },
             method: 'POST',
+            timeout: 10_000,
         })
     })
 
@@ -109,6 +110,8 @@ describe('ingestEvent', () => {
                     created_at: expect.any(String),
                     team_id: 2,
                     properties: {},
+                    properties_last_updated_at: {},
+                    properties_last_operation: {},
                     is_user_id: null,
                     is_identified: false,
                     uuid: expect.any(String),
@@ -126,5 +129,6 @@ describe('ingestEvent', () => {
         expect(JSON.parse(secondArg!.body as unknown as string)).toStrictEqual(expectedPayload)
         expect(secondArg!.headers).toStrictEqual({ 'Content-Type': 'application/json' })
         expect(secondArg!.method).toBe('POST')
+        expect(secondArg!.timeout).toBe(10_000)
     })
 })
@@ -0,0 +1,170 @@
+import { DateTime } from 'luxon'
+
+import { PropertyUpdateOperation } from '../../../src/types'
+import {
+    applyPersonPropertyOperations,
+    extractPersonPropertyOperations,
+    mergePersonProperties,
+    trackPropertyUpdates,
+} from '../../../src/worker/ingestion/person-properties'
+
+describe('trackPropertyUpdates', () => {
+    it('records changed properties only', () => {
+        const person = {
+            properties: { a: 1, b: 2 },
+            properties_last_updated_at: { a: '2021-01-01T00:00:00.000Z' },
+            properties_last_operation: { a: PropertyUpdateOperation.Set },
+        }
+
+        const update = trackPropertyUpdates(
+            person,
+            { a: 1, b: 3, c: 4 },
+            ['c'],
+            DateTime.fromISO('2021-02-01T00:00:00Z')
+        )
+
+        expect(update).toEqual({
+            properties_last_updated_at: {
+                a: '2021-01-01T00:00:00.000Z',
+                b: '2021-02-01T00:00:00.000Z',
+                c: '2021-02-01T00:00:00.000Z',
+            },
+            properties_last_operation: {
+                a: PropertyUpdateOperation.Set,
+                b: PropertyUpdateOperation.Set,
+                c: PropertyUpdateOperation.SetOnce,
+            },
+        })
+    })
+
+    it('caps timestamps in the future', () => {
+        const update = trackPropertyUpdates(
+            { properties: {}, properties_last_updated_at: null, properties_last_operation: null },
+            { a: 1 },
+            [],
+            DateTime.utc().plus({ years: 1 })
+        )
+
+        expect(DateTime.fromISO(update.properties_last_updated_at.a) <= DateTime.utc()).toBe(true)
+    })
+})
+
+describe('mergePersonProperties', () => {
+    const earlier = '2021-01-01T00:00:00.000Z'
+    const later = '2021-01-02T00:00:00.000Z'
+
+    it('keeps the most recent $set value', () => {
+        const merge = mergePersonProperties(
+            {
+                properties: { a: 'into', b: 'into' },
+                properties_last_updated_at: { a: earlier, b: later },
+                properties_last_operation: { a: PropertyUpdateOperation.Set, b: PropertyUpdateOperation.Set },
+            },
+            {
+                properties: { a: 'other', b: 'other', c: 'other' },
+                properties_last_updated_at: { a: later, b: earlier, c: earlier },
+                properties_last_operation: {
+                    a: PropertyUpdateOperation.Set,
+                    b: PropertyUpdateOperation.Set,
+                    c: PropertyUpdateOperation.Set,
+                },
+            }
+        )
+
+        expect(merge.properties).toEqual({ a: 'other', b: 'into', c: 'other' })
+        expect(merge.properties_last_updated_at).toEqual({ a: later, b: later, c: earlier })
+        expect(merge.takenFromOtherPerson).toEqual(['a', 'c'])
+        expect(merge.discarded).toEqual({ a: 'into', b: 'other' })
+    })
+
+    it('keeps the first $set_once value, unless there is a $set one', () => {
+        const merge = mergePersonProperties(
+            {
+                properties: { a: 'into', b: 'into' },
+                properties_last_updated_at: { a: later, b: earlier },
+                properties_last_operation: { a: PropertyUpdateOperation.SetOnce, b: PropertyUpdateOperation.SetOnce },
+            },
+            {
+                properties: { a: 'other', b: 'other' },
+                properties_last_updated_at: { a: earlier, b: later },
+                properties_last_operation: { a: PropertyUpdateOperation.SetOnce, b: PropertyUpdateOperation.Set },
+            }
+        )
+
+        expect(merge.properties).toEqual({ a: 'other', b: 'other' })
+        expect(merge.properties_last_operation).toEqual({
+            a: PropertyUpdateOperation.SetOnce,
+            b: PropertyUpdateOperation.Set,
+        })
+    })
+
+    it('gives precedence to the person merged into without timestamps', () => {
+        const merge = mergePersonProperties(
+            { properties: { a: 'into', b: 'into' }, properties_last_updated_at: null, properties_last_operation: null },
+            {
+                properties: { a: 'other', b: 'other' },
+                properties_last_updated_at: { b: earlier },
+                properties_last_operation: { b: PropertyUpdateOperation.Set },
+            }
+        )
+
+        expect(merge.properties).toEqual({ a: 'into', b: 'other' })
+    })
+})
+
+describe('extractPersonPropertyOperations', () => {
+    it('picks valid operations', () => {
+        expect(
+            extractPersonPropertyOperations({
+                $set: { a: 1 },
+                $unset: ['a', 5],
+                $append: { list: 'x' },
+                $union: 'not an object',
+                $max: { score: 10, name: 'x' },
+            })
+        ).toEqual({ $unset: ['a'], $append: { list: 'x' }, $max: { score: 10 } })
+        expect(extractPersonPropertyOperations({ $unset: { a: null } })).toEqual({ $unset: ['a'] })
+    })
+
+    it('returns null without operations', () => {
+        expect(extractPersonPropertyOperations({ $set: { a: 1 } })).toEqual(null)
+        expect(extractPersonPropertyOperations({ $unset: [], $min: { a: 'b' } })).toEqual(null)
+    })
+})
+
+describe('applyPersonPropertyOperations', () => {
+    it('applies operations', () => {
+        const properties = { a: 1, tags: ['x', 'y'], score: 5, low: 5, name: 'z' }
+
+        const updatedProperties = applyPersonPropertyOperations(properties, {
+            $unset: ['a'],
+            $append: { tags: 'x', new_list: { b: 1 } },
+            $union: { tags: ['y', 'z', 'z'] },
+            $remove: { tags: 'x' },
+            $max: { score: 10, new_score: 1 },
+            $min: { low: 10 },
+        })
+
+        expect(updatedProperties).toEqual({
+            tags: ['y', 'z'],
+            new_list: [{ b: 1 }],
+            score: 10,
+            new_score: 1,
+            low: 5,
+            name: 'z',
+        })
+        expect(properties.a).toEqual(1)
+    })
+
+    it('skips operations not fitting the current value', () => {
+        const properties = { name: 'z', list: [1] }
+
+        expect(
+            applyPersonPropertyOperations(properties, {
+                $append: { name: 'x' },
+                $remove: { name: 'z' },
+                $max: { name: 1, list: 2 },
+            })
+        ).toEqual(properties)
+    })
+})
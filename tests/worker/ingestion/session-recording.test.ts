@@ -0,0 +1,153 @@
+import { Hub, Team } from '../../../src/types'
+import { createHub } from '../../../src/utils/db/hub'
+import {
+    compressAndChunkSnapshot,
+    decompressSnapshotChunks,
+    isSessionRecordingTrigger,
+    isSessionSampled,
+    SessionRecordingManager,
+    SessionSnapshot,
+} from '../../../src/worker/ingestion/session-recording'
+
+describe('compressAndChunkSnapshot', () => {
+    it('splits compressed snapshot data into ordered chunks', () => {
+        const snapshotData = { type: 2, data: { source: Array.from({ length: 500 }, (_, i) => i).join() } }
+
+        const chunks = compressAndChunkSnapshot(snapshotData, 100)
+
+        expect(chunks.length).toBeGreaterThan(1)
+        expect(new Set(chunks.map((chunk) => chunk.chunk_id)).size).toEqual(1)
+        chunks.forEach((chunk, index) => {
+            expect(chunk).toEqual(
+                expect.objectContaining({
+                    chunk_index: index,
+                    chunk_count: chunks.length,
+                    compression: 'gzip-base64',
+                    has_full_snapshot: true,
+                })
+            )
+            expect(chunk.data.length).toBeLessThanOrEqual(100)
+        })
+        expect(decompressSnapshotChunks([...chunks].reverse())).toEqual(snapshotData)
+    })
+
+    it('fits small snapshots into one chunk', () => {
+        const chunks = compressAndChunkSnapshot({ type: 3, data: {} }, 1000)
+
+        expect(chunks.length).toEqual(1)
+        expect(chunks[0].has_full_snapshot).toEqual(false)
+        expect(decompressSnapshotChunks(chunks)).toEqual({ type: 3, data: {} })
+    })
+})
+
+describe('isSessionSampled', () => {
+    it('samples sessions by their ID', () => {
+        const sessionIds = Array.from({ length: 1000 }, (_, i) => `session-${i}`)
+        const sampled = sessionIds.filter((sessionId) => isSessionSampled(sessionId, 0.2))
+
+        expect(sampled.length).toBeGreaterThan(150)
+        expect(sampled.length).toBeLessThan(250)
+        expect(sessionIds.filter((sessionId) => isSessionSampled(sessionId, 0.2))).toEqual(sampled)
+        expect(sessionIds.every((sessionId) => isSessionSampled(sessionId, null))).toEqual(true)
+        expect(sessionIds.some((sessionId) => isSessionSampled(sessionId, 0))).toEqual(false)
+    })
+})
+
+describe('isSessionRecordingTrigger', () => {
+    const team = {
+        session_recording_trigger_events: ['purchase'],
+        session_recording_trigger_urls: ['/checkout'],
+    } as Team
+
+    it('matches events and URLs', () => {
+        expect(isSessionRecordingTrigger(team, 'purchase', {})).toEqual(true)
+        expect(
+            isSessionRecordingTrigger(team, '$pageview', { $current_url: 'https://example.com/checkout/1' })
+        ).toEqual(true)
+        expect(
+            isSessionRecordingTrigger(team, '$snapshot', {
+                $snapshot_data: { type: 4, data: { href: 'https://example.com/checkout' } },
+            })
+        ).toEqual(true)
+        expect(isSessionRecordingTrigger(team, '$pageview', { $current_url: 'https://example.com/' })).toEqual(false)
+    })
+})
+
+describe('SessionRecordingManager', () => {
+    let hub: Hub
+    let closeHub: () => Promise<void>
+    let manager: SessionRecordingManager
+
+    beforeEach(async () => {
+        ;[hub, closeHub] = await createHub()
+        manager = new SessionRecordingManager(hub)
+        const redis = await hub.redisPool.acquire()
+        const keys = await redis.keys('@posthog-plugin-server/session-recording/*')
+        if (keys.length) {
+            await redis.del(...keys)
+        }
+        await hub.redisPool.release(redis)
+    })
+
+    afterEach(async () => {
+        await closeHub()
+    })
+
+    function snapshot(seconds: number): SessionSnapshot {
+        return {
+            uuid: `uuid-${seconds}`,
+            distinctId: 'distinct_id',
+            sessionId: 'session',
+            timestamp: new Date(Date.UTC(2021, 0, 1, 0, 0, seconds)).toISOString(),
+            snapshotData: { timestamp: seconds },
+        }
+    }
+
+    it('stores all snapshots without criteria', async () => {
+        jest.spyOn(hub.db, 'redisEval')
+
+        expect(await manager.filterSnapshot({ id: 2 } as Team, snapshot(0), {})).toEqual([snapshot(0)])
+        expect(hub.db.redisEval).not.toHaveBeenCalled()
+    })
+
+    it('buffers snapshots until the minimum duration is reached', async () => {
+        const team = { id: 2, session_recording_minimum_duration_milliseconds: 10_000 } as Team
+
+        expect(await manager.filterSnapshot(team, snapshot(0), {})).toEqual([])
+        expect(await manager.filterSnapshot(team, snapshot(5), {})).toEqual([])
+        expect(await manager.filterSnapshot(team, snapshot(10), {})).toEqual([snapshot(0), snapshot(5), snapshot(10)])
+        expect(await manager.filterSnapshot(team, snapshot(11), {})).toEqual([snapshot(11)])
+    })
+
+    it('buffers snapshots until an event triggers the recording', async () => {
+        const team = { id: 2, session_recording_trigger_events: ['purchase'] } as Team
+
+        expect(await manager.filterSnapshot(team, snapshot(0), {})).toEqual([])
+        expect(await manager.handleSessionEvent(team, 'session', '$pageview', {})).toEqual([])
+        expect(await manager.handleSessionEvent(team, 'session', 'purchase', {})).toEqual([snapshot(0)])
+        expect(await manager.filterSnapshot(team, snapshot(1), {})).toEqual([snapshot(1)])
+    })
+
+    it('releases each buffered snapshot once when snapshots arrive concurrently', async () => {
+        const team = { id: 2, session_recording_minimum_duration_milliseconds: 10_000 } as Team
+
+        const results = await Promise.all(
+            Array.from({ length: 20 }, (_, index) => manager.filterSnapshot(team, snapshot(index), {}))
+        )
+
+        const storedSeconds = results.flat().map((storedSnapshot) => storedSnapshot.snapshotData.timestamp)
+        expect(storedSeconds.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, index) => index))
+    })
+
+    it('tells when a session recording starts', async () => {
+        expect(await manager.isSessionRecordingStart(2, 'session')).toEqual(true)
+        expect(await manager.isSessionRecordingStart(2, 'session')).toEqual(false)
+        expect(await manager.isSessionRecordingStart(2, 'other_session')).toEqual(true)
+    })
+
+    it('drops sessions not sampled', async () => {
+        expect(
+            await manager.filterSnapshot({ id: 2, session_recording_sample_rate: 0 } as Team, snapshot(0), {})
+        ).toEqual([])
+    })
+})
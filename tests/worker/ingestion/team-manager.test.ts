@@ -1,6 +1,6 @@
 import { mocked } from 'ts-jest/utils'
 
-import { Hub } from '../../../src/types'
+import { Hub, PropertyType } from '../../../src/types'
 import { createHub } from '../../../src/utils/db/hub'
 import { UUIDT } from '../../../src/utils/utils'
 import { TeamManager } from '../../../src/worker/ingestion/team-manager'
@@ -238,6 +238,45 @@ describe('TeamManager()', () => {
             expect(hub.db.postgresQuery).toHaveBeenCalledTimes(1)
         })
 
+        it('counts property types and flushes them to Postgres', async () => {
+            await teamManager.updateEventNamesAndProperties(2, 'new-event', { property_name: 'efg', number: 4 })
+            await teamManager.updateEventNamesAndProperties(2, 'new-event', { property_name: 5, number: 4 })
+            expect(await hub.db.fetchPropertyTypeCounts(2)).toEqual([])
+
+            await teamManager.flushPropertyTypeCounts()
+            await teamManager.updateEventNamesAndProperties(2, 'new-event', { number: 6 })
+            await teamManager.flushPropertyTypeCounts()
+
+            expect(await hub.db.fetchPropertyTypeCounts(2)).toEqual([
+                expect.objectContaining({ name: 'number', property_type: PropertyType.Numeric, count: 3 }),
+                expect.objectContaining({ name: 'property_name', property_type: PropertyType.Numeric, count: 1 }),
+                expect.objectContaining({ name: 'property_name', property_type: PropertyType.String, count: 1 }),
+            ])
+            expect(await hub.db.fetchPropertyTypeDrift(2)).toEqual([
+                { name: 'property_name', type_counts: { [PropertyType.Numeric]: 1, [PropertyType.String]: 1 } },
+            ])
+        })
+
+        it('keeps property type counts that failed to flush for the next flush', async () => {
+            await teamManager.updateEventNamesAndProperties(2, 'new-event', { number: 4 })
+            jest.spyOn(hub.db, 'addPropertyTypeCounts').mockRejectedValueOnce(new Error('Postgres is down'))
+            await teamManager.flushPropertyTypeCounts()
+            await teamManager.updateEventNamesAndProperties(2, 'new-event', { number: 5 })
+            await teamManager.flushPropertyTypeCounts()
+
+            expect(await hub.db.fetchPropertyTypeCounts(2)).toEqual([
+                expect.objectContaining({ name: 'number', property_type: PropertyType.Numeric, count: 2 }),
+            ])
+        })
+
+        it('does not query Postgres on flush if nothing was counted', async () => {
+            jest.spyOn(hub.db, 'postgresQuery')
+
+            await teamManager.flushPropertyTypeCounts()
+
+            expect(hub.db.postgresQuery).not.toHaveBeenCalled()
+        })
+
         describe('first event has not yet been ingested', () => {
             beforeEach(async () => {
                 await hub.db.postgresQuery('UPDATE posthog_team SET ingested_event = false', undefined, 'testTag')